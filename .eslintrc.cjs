@@ -10,4 +10,8 @@ module.exports = {
   globals: {
     shopify: "readonly"
   },
+  settings: {
+    // Tests run on vitest, which keeps jest's API - the jest rules need a version to check it against
+    jest: { version: 29 },
+  },
 };
@@ -0,0 +1,236 @@
+// EXCLUSION RULES EDITOR COMPONENT
+// Edits a rule set (groups of field/operator/value conditions) and shows a live count
+// of the products it matches, fetched from /app/rule-matches
+
+// REACT IMPORTS
+import { useEffect } from "react";
+
+// REMIX FRAMEWORK IMPORTS
+import { useFetcher } from "@remix-run/react";
+
+// SHOPIFY POLARIS UI COMPONENTS
+import {
+  BlockStack,
+  Box,
+  Button,
+  InlineStack,
+  Select,
+  Spinner,
+  Text,
+  TextField,
+} from "@shopify/polaris";
+import { DeleteIcon, PlusIcon } from "@shopify/polaris-icons";
+
+// SHARED RULE TYPES AND HELPERS
+import {
+  compactRuleSet,
+  countRules,
+  createRule,
+  OPERATORS_BY_FIELD,
+  RULE_FIELD_LABELS,
+  RULE_FIELDS,
+  RULE_OPERATOR_LABELS,
+} from "../utils/exclusion-rules";
+import type {
+  ExclusionRule,
+  ExclusionRuleGroup,
+  ExclusionRuleSet,
+  RuleField,
+  RuleMatch,
+} from "../utils/exclusion-rules";
+import type { loader as ruleMatchesLoader } from "../routes/app.rule-matches";
+
+// COMPONENT PROPS INTERFACE
+interface ExclusionRulesEditorProps {
+  /** The rule set being edited */
+  value: ExclusionRuleSet;
+  /** Callback with the updated rule set */
+  onChange: (value: ExclusionRuleSet) => void;
+  /** Count matches in this collection - the shop's first products when omitted */
+  collectionId?: string;
+  /** Whether the editor is disabled */
+  disabled?: boolean;
+}
+
+// Wait this long after the last edit before recounting matches
+const COUNT_DEBOUNCE_MS = 600;
+
+const fieldOptions = RULE_FIELDS.map(field => ({ label: RULE_FIELD_LABELS[field], value: field }));
+
+const matchOptions = [
+  { label: 'all conditions', value: 'all' },
+  { label: 'any condition', value: 'any' },
+];
+
+export function ExclusionRulesEditor({
+  value,
+  onChange,
+  collectionId,
+  disabled = false,
+}: ExclusionRulesEditorProps) {
+  const countFetcher = useFetcher<typeof ruleMatchesLoader>();
+  const loadCount = countFetcher.load;
+  const ruleCount = countRules(value);
+  const countKey = JSON.stringify(compactRuleSet(value));
+
+  // LIVE MATCH COUNT - only complete rules are counted, so typing doesn't refetch on every keystroke
+  useEffect(() => {
+    if (ruleCount === 0) return;
+    const params = new URLSearchParams({ rules: countKey });
+    if (collectionId) params.set('collectionId', collectionId);
+
+    const timeout = setTimeout(() => loadCount(`/app/rule-matches?${params}`), COUNT_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [countKey, collectionId, ruleCount, loadCount]);
+
+  // RULE SET UPDATES
+  const updateGroup = (groupIndex: number, group: ExclusionRuleGroup) => {
+    onChange({ ...value, groups: value.groups.map((existing, index) => index === groupIndex ? group : existing) });
+  };
+
+  const updateRule = (groupIndex: number, ruleIndex: number, rule: ExclusionRule) => {
+    const group = value.groups[groupIndex];
+    updateGroup(groupIndex, { ...group, rules: group.rules.map((existing, index) => index === ruleIndex ? rule : existing) });
+  };
+
+  const removeRule = (groupIndex: number, ruleIndex: number) => {
+    const group = value.groups[groupIndex];
+    const rules = group.rules.filter((_, index) => index !== ruleIndex);
+    if (rules.length === 0) {
+      onChange({ ...value, groups: value.groups.filter((_, index) => index !== groupIndex) });
+    } else {
+      updateGroup(groupIndex, { ...group, rules });
+    }
+  };
+
+  const addRule = (groupIndex: number) => {
+    const group = value.groups[groupIndex];
+    updateGroup(groupIndex, { ...group, rules: [...group.rules, createRule()] });
+  };
+
+  const addGroup = () => {
+    onChange({ ...value, groups: [...value.groups, { match: 'all', rules: [createRule()] }] });
+  };
+
+  // Switching field resets the operator to one the new field supports
+  const handleFieldChange = (groupIndex: number, ruleIndex: number, field: RuleField) => {
+    updateRule(groupIndex, ruleIndex, { ...createRule(field), value: value.groups[groupIndex].rules[ruleIndex].value });
+  };
+
+  const count = countFetcher.data?.count;
+
+  return (
+    <BlockStack gap="300">
+      {value.groups.length > 1 && (
+        <Select
+          label="Exclude products that match"
+          options={[
+            { label: 'any of these groups', value: 'any' },
+            { label: 'all of these groups', value: 'all' },
+          ]}
+          value={value.match}
+          onChange={(match) => onChange({ ...value, match: match as RuleMatch })}
+          disabled={disabled}
+        />
+      )}
+
+      {value.groups.map((group, groupIndex) => (
+        <Box key={groupIndex} padding="300" borderWidth="025" borderColor="border" borderRadius="200">
+          <BlockStack gap="200">
+            <InlineStack gap="200" blockAlign="center">
+              <Text as="span" variant="bodyMd">Products matching</Text>
+              <Select
+                label="Group match"
+                labelHidden
+                options={matchOptions}
+                value={group.match}
+                onChange={(match) => updateGroup(groupIndex, { ...group, match: match as RuleMatch })}
+                disabled={disabled}
+              />
+            </InlineStack>
+
+            {group.rules.map((rule, ruleIndex) => {
+              const needsValue = rule.operator !== 'exists' && rule.operator !== 'not_exists';
+              const isNumeric = rule.field === 'price' || rule.field === 'createdAtAge';
+
+              return (
+                <InlineStack key={ruleIndex} gap="200" blockAlign="center" wrap={false}>
+                  <Select
+                    label="Field"
+                    labelHidden
+                    options={fieldOptions}
+                    value={rule.field}
+                    onChange={(field) => handleFieldChange(groupIndex, ruleIndex, field as RuleField)}
+                    disabled={disabled}
+                  />
+                  {rule.field === 'metafield' && (
+                    <TextField
+                      label="Metafield"
+                      labelHidden
+                      placeholder="namespace.key"
+                      value={rule.metafieldKey || ''}
+                      onChange={(metafieldKey) => updateRule(groupIndex, ruleIndex, { ...rule, metafieldKey })}
+                      autoComplete="off"
+                      disabled={disabled}
+                    />
+                  )}
+                  <Select
+                    label="Operator"
+                    labelHidden
+                    options={OPERATORS_BY_FIELD[rule.field].map(operator => ({ label: RULE_OPERATOR_LABELS[operator], value: operator }))}
+                    value={rule.operator}
+                    onChange={(operator) => updateRule(groupIndex, ruleIndex, { ...rule, operator: operator as ExclusionRule['operator'] })}
+                    disabled={disabled}
+                  />
+                  {needsValue && (
+                    <TextField
+                      label="Value"
+                      labelHidden
+                      type={isNumeric ? 'number' : 'text'}
+                      placeholder={rule.field === 'createdAtAge' ? 'Days' : isNumeric ? '0.00' : 'Value'}
+                      value={rule.value}
+                      onChange={(ruleValue) => updateRule(groupIndex, ruleIndex, { ...rule, value: ruleValue })}
+                      autoComplete="off"
+                      disabled={disabled}
+                    />
+                  )}
+                  <Button
+                    icon={DeleteIcon}
+                    variant="plain"
+                    accessibilityLabel="Remove condition"
+                    onClick={() => removeRule(groupIndex, ruleIndex)}
+                    disabled={disabled}
+                  />
+                </InlineStack>
+              );
+            })}
+
+            <InlineStack>
+              <Button variant="plain" icon={PlusIcon} onClick={() => addRule(groupIndex)} disabled={disabled}>
+                Add condition
+              </Button>
+            </InlineStack>
+          </BlockStack>
+        </Box>
+      ))}
+
+      <InlineStack gap="300" blockAlign="center">
+        <Button icon={PlusIcon} onClick={addGroup} disabled={disabled}>
+          {value.groups.length === 0 ? 'Add rule' : 'Add rule group'}
+        </Button>
+
+        {/* LIVE MATCH COUNT */}
+        {ruleCount > 0 && (countFetcher.state !== 'idle' ? (
+          <Spinner size="small" accessibilityLabel="Counting matching products" />
+        ) : count ? (
+          <Text as="span" variant="bodySm" tone="subdued">
+            Matches {count.matched} of {count.total}{count.sampled ? ' (first products only)' : ''} products
+            {count.examples.length > 0 ? ` - e.g. ${count.examples.join(', ')}` : ''}
+          </Text>
+        ) : countFetcher.data?.error ? (
+          <Text as="span" variant="bodySm" tone="critical">{countFetcher.data.error}</Text>
+        ) : null)}
+      </InlineStack>
+    </BlockStack>
+  );
+}
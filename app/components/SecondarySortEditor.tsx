@@ -0,0 +1,123 @@
+// SECONDARY SORT EDITOR COMPONENT
+// Edits the steps that order products inside one stock tier (e.g. most stock first, then margin)
+
+// SHOPIFY POLARIS UI COMPONENTS
+import {
+  BlockStack,
+  Button,
+  InlineStack,
+  Select,
+  Text,
+  TextField,
+} from "@shopify/polaris";
+import { DeleteIcon, PlusIcon } from "@shopify/polaris-icons";
+
+// SHARED SECONDARY SORT TYPES AND HELPERS
+import {
+  createSortStep,
+  MAX_SECONDARY_SORT_STEPS,
+  SECONDARY_SORT_KEYS,
+  SECONDARY_SORT_LABELS,
+} from "../utils/secondary-sort";
+import type { SecondarySortKey, SecondarySortStep, SortDirection } from "../utils/secondary-sort";
+import { DEFAULT_SALES_WINDOW_DAYS, SALES_VELOCITY_WINDOWS } from "../utils/sales-velocity";
+
+// COMPONENT PROPS INTERFACE
+interface SecondarySortEditorProps {
+  /** Heading for this tier, e.g. "In stock" */
+  title: string;
+  /** The tier's steps, first step first */
+  value: SecondarySortStep[];
+  /** Callback with the updated steps */
+  onChange: (value: SecondarySortStep[]) => void;
+  /** Whether the editor is disabled */
+  disabled?: boolean;
+}
+
+const keyOptions = SECONDARY_SORT_KEYS.map(key => ({ label: SECONDARY_SORT_LABELS[key], value: key }));
+
+const windowOptions = SALES_VELOCITY_WINDOWS.map(days => ({ label: `last ${days} days`, value: `${days}` }));
+
+// Direction labels read naturally for each kind of value
+const directionOptions = (key: SecondarySortKey) => key === 'restock_date'
+  ? [{ label: 'Soonest first', value: 'asc' }, { label: 'Latest first', value: 'desc' }]
+  : [{ label: 'Highest first', value: 'desc' }, { label: 'Lowest first', value: 'asc' }];
+
+export function SecondarySortEditor({
+  title,
+  value,
+  onChange,
+  disabled = false,
+}: SecondarySortEditorProps) {
+  const updateStep = (stepIndex: number, step: SecondarySortStep) => {
+    onChange(value.map((existing, index) => index === stepIndex ? step : existing));
+  };
+
+  return (
+    <BlockStack gap="200">
+      <Text as="h3" variant="headingSm">{title}</Text>
+
+      {value.length === 0 && (
+        <Text as="p" variant="bodySm" tone="subdued">Collection sort order</Text>
+      )}
+
+      {value.map((step, stepIndex) => (
+        <InlineStack key={stepIndex} gap="200" blockAlign="center" wrap={false}>
+          <Text as="span" variant="bodySm" tone="subdued">{stepIndex === 0 ? 'By' : 'Then'}</Text>
+          <Select
+            label="Sort by"
+            labelHidden
+            options={keyOptions}
+            value={step.key}
+            onChange={(key) => updateStep(stepIndex, createSortStep(key as SecondarySortKey))}
+            disabled={disabled}
+          />
+          {(step.key === 'metafield' || step.key === 'restock_date') && (
+            <TextField
+              label="Metafield"
+              labelHidden
+              placeholder="namespace.key"
+              value={step.metafieldKey || ''}
+              onChange={(metafieldKey) => updateStep(stepIndex, { ...step, metafieldKey })}
+              autoComplete="off"
+              disabled={disabled}
+            />
+          )}
+          {step.key === 'sales_velocity' && (
+            <Select
+              label="Sales window"
+              labelHidden
+              options={windowOptions}
+              value={`${step.days || DEFAULT_SALES_WINDOW_DAYS}`}
+              onChange={(days) => updateStep(stepIndex, { ...step, days: Number(days) })}
+              disabled={disabled}
+            />
+          )}
+          <Select
+            label="Direction"
+            labelHidden
+            options={directionOptions(step.key)}
+            value={step.direction}
+            onChange={(direction) => updateStep(stepIndex, { ...step, direction: direction as SortDirection })}
+            disabled={disabled}
+          />
+          <Button
+            icon={DeleteIcon}
+            variant="plain"
+            accessibilityLabel="Remove sort step"
+            onClick={() => onChange(value.filter((_, index) => index !== stepIndex))}
+            disabled={disabled}
+          />
+        </InlineStack>
+      ))}
+
+      {value.length < MAX_SECONDARY_SORT_STEPS && (
+        <InlineStack>
+          <Button variant="plain" icon={PlusIcon} onClick={() => onChange([...value, createSortStep()])} disabled={disabled}>
+            {value.length === 0 ? 'Add sort' : 'Add tie-breaker'}
+          </Button>
+        </InlineStack>
+      )}
+    </BlockStack>
+  );
+}
@@ -1,5 +1,9 @@
 // SHOPIFY-STYLE TAG AUTOCOMPLETE COMPONENT
 // Mimics the native Shopify admin tag input behavior with smooth autocomplete
+// Suggestions come from the shop's tag index (GET /app/tags) as the merchant types
+
+// REMIX FRAMEWORK IMPORTS
+import { useFetcher } from "@remix-run/react";
 
 // REACT IMPORTS
 import { useState, useMemo, useRef, useEffect, useCallback } from "react";
@@ -16,8 +20,6 @@ import { PlusIcon } from '@shopify/polaris-icons';
 
 // COMPONENT PROPS INTERFACE
 interface TagAutocompleteProps {
-  /** All available tags from the store for suggestions */
-  availableTags: string[];
   /** Currently selected tags */
   selectedTags: string[];
   /** Callback when a tag is added */
@@ -34,8 +36,10 @@ interface TagAutocompleteProps {
   disabled?: boolean;
 }
 
+// Wait this long after the last keystroke before searching tags
+const TAG_SEARCH_DEBOUNCE_MS = 200;
+
 export function TagAutocomplete({
-  availableTags = [],
   selectedTags = [],
   onAddTag,
   onRemoveTag,
@@ -44,11 +48,6 @@ export function TagAutocomplete({
   labelHidden = true,
   disabled = false,
 }: TagAutocompleteProps) {
-  // Validate props
-  if (!onAddTag || !onRemoveTag) {
-    console.error('TagAutocomplete: onAddTag and onRemoveTag are required props');
-    return null;
-  }
   // INPUT STATE
   const [inputValue, setInputValue] = useState("");
   const [showSuggestions, setShowSuggestions] = useState(false);
@@ -61,6 +60,17 @@ export function TagAutocomplete({
   const inputRef = useRef<HTMLInputElement>(null);
   const plusButtonRef = useRef<HTMLButtonElement>(null);
 
+  // TAG SEARCH - the endpoint returns the best matches of the shop's tags
+  const tagFetcher = useFetcher<{ tags: string[] }>();
+  const { load: loadTags } = tagFetcher;
+  const availableTags = tagFetcher.data?.tags;
+
+  useEffect(() => {
+    if (!showInput) return;
+    const timeout = setTimeout(() => loadTags(`/app/tags?query=${encodeURIComponent(inputValue.trim())}`), TAG_SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [inputValue, showInput, loadTags]);
+
   // FILTER SUGGESTIONS BASED ON INPUT
   const suggestions = useMemo(() => {
     try {
@@ -289,6 +299,12 @@ export function TagAutocomplete({
     };
   }, [showInput, handleInputClose]);
 
+  // Validate props
+  if (!onAddTag || !onRemoveTag) {
+    console.error('TagAutocomplete: onAddTag and onRemoveTag are required props');
+    return null;
+  }
+
   return (
     <>
       <div ref={containerRef} style={{ position: 'relative', width: '100%', maxWidth: '100px' }}>
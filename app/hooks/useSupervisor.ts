@@ -14,10 +14,15 @@ import {
   createTaggedFormData,
   initializeOperationStatus,
   updateOperationStatus,
+  markOperationSorting,
+  updateOperationFromJob,
   isOperationTimedOut,
   shouldCleanupStatus
 } from '../utils/operation-manager.client';
 
+// How often queued sort jobs are polled while any are still running
+const SORT_JOB_POLL_INTERVAL_MS = 3000;
+
 type Operation = {
   collectionId: string;
   targetState: CollectionState;
@@ -34,6 +39,9 @@ export function useSupervisor(initialCollections: any[], existingSettings: any[]
   
   // Single fetcher for serialized operations
   const mainFetcher = useFetcher();
+
+  // Separate fetcher for polling background sort jobs
+  const jobsFetcher = useFetcher<{ jobs: any[] }>();
   
   // Operation queue for serialization
   const operationQueueRef = useRef<Operation[]>([]);
@@ -148,14 +156,15 @@ export function useSupervisor(initialCollections: any[], existingSettings: any[]
             [collectionId]: { ...uiState[collectionId] }
           }));
           
-          const updatedStatus = updateOperationStatus(
+          let updatedStatus = updateOperationStatus(
             operationStatus[collectionId] || initializeOperationStatus(collectionId),
             mainFetcher.data.success,
             mainFetcher.data.error
           );
           
-          if (mainFetcher.data.success && mainFetcher.data.stats) {
-            updatedStatus.serverResponseData = mainFetcher.data.stats;
+          // Settings are saved; the sort itself runs as a background job we keep polling
+          if (mainFetcher.data.success && mainFetcher.data.jobId) {
+            updatedStatus = markOperationSorting(updatedStatus, mainFetcher.data.jobId);
           }
           
           setOperationStatus(prev => ({ ...prev, [collectionId]: updatedStatus }));
@@ -175,6 +184,48 @@ export function useSupervisor(initialCollections: any[], existingSettings: any[]
     }
   }, [mainFetcher.state, mainFetcher.data, uiState, operationStatus, processQueue]);
 
+  // Poll background sort jobs until they complete or fail
+  const sortingJobIds = Object.values(operationStatus)
+    .filter(status => status.status === 'sorting' && status.jobId)
+    .map(status => status.jobId as string)
+    .join(',');
+
+  useEffect(() => {
+    if (!sortingJobIds) return;
+
+    const interval = setInterval(() => {
+      if (jobsFetcher.state === 'idle') {
+        jobsFetcher.load(`/app/sort-jobs?ids=${encodeURIComponent(sortingJobIds)}`);
+      }
+    }, SORT_JOB_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [sortingJobIds, jobsFetcher]);
+
+  useEffect(() => {
+    const jobs = jobsFetcher.data?.jobs;
+    if (!Array.isArray(jobs) || jobs.length === 0) return;
+
+    setOperationStatus(prev => {
+      let hasChanges = false;
+      const next = { ...prev };
+
+      jobs.forEach(job => {
+        const current = next[job.collectionId];
+        if (current?.status !== 'sorting' || current.jobId !== job.id) return;
+
+        const updated = updateOperationFromJob(current, job);
+        if (updated !== current) {
+          console.log('📬 SUPERVISOR Sort job finished:', job.id, job.status);
+          next[job.collectionId] = updated;
+          hasChanges = true;
+        }
+      });
+
+      return hasChanges ? next : prev;
+    });
+  }, [jobsFetcher.data]);
+
   // Timeout and cleanup management
   useEffect(() => {
     const interval = setInterval(() => {
@@ -0,0 +1,14 @@
+// CRON REQUEST AUTHENTICATION
+// Background routes (sort worker, scheduler) are called by Vercel Cron, not by Shopify,
+// so they are protected by a shared secret instead of a Shopify session.
+// Vercel sends it as "Authorization: Bearer <CRON_SECRET>".
+
+export function isAuthorizedCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error('❌ CRON_SECRET is not set - refusing background request');
+    return false;
+  }
+
+  return request.headers.get('Authorization') === `Bearer ${secret}`;
+}
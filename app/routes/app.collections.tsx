@@ -4,7 +4,7 @@
 // REMIX FRAMEWORK IMPORTS
 import type { LoaderFunctionArgs, ActionFunctionArgs } from "@vercel/remix";
 import { json } from "@vercel/remix";
-import { useLoaderData } from "@remix-run/react";
+import { useFetcher, useLoaderData, useNavigation, useSearchParams } from "@remix-run/react";
 
 // REACT IMPORTS
 import { useState, useCallback } from "react";
@@ -31,6 +31,10 @@ import {
   Tooltip,
   Icon,
   Spinner,
+  Checkbox,
+  Popover,
+  Button,
+  Modal,
 } from "@shopify/polaris";
 import { InfoIcon, CheckIcon, AlertTriangleIcon } from "@shopify/polaris-icons";
 
@@ -43,87 +47,69 @@ import { TitleBar } from "@shopify/app-bridge-react";
 // SHOPIFY AUTHENTICATION AND DATABASE
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
+import { fetchShopLocations } from "../services/locations.server";
+import { fetchSalesContexts } from "../services/sales-contexts.server";
+import { getOriginalSortOrders, restoreOriginalOrder, snapshotOriginalOrder } from "../services/original-order.server";
+import { fetchCollectionPage } from "../services/collection-listing.server";
+import { enqueueSortJob } from "../services/sort-queue.server";
+import type { RestoreMode } from "../services/original-order.server";
 
 // SUPERVISOR PATTERN
 import { useSupervisor } from "../hooks/useSupervisor";
 import type { CollectionState } from "../utils/supervisor.client";
+import { formatTierCounts } from "../utils/sort-tiers";
+import { DEFAULT_SALES_WINDOW_DAYS, getSalesSortMetric, parseSalesWindowDays, SALES_VELOCITY_WINDOWS } from "../utils/sales-velocity";
+import { COLLECTION_LIST_SORT_OPTIONS, DEFAULT_COLLECTION_LIST_SORT, parseCollectionListParams } from "../utils/collection-listing";
+
+// The per-collection tag lists: keep in place, always push down, boost to top
+const TAG_LISTS = ['exclusionTags', 'pushDownTags', 'boostTags'] as const;
+type TagList = typeof TAG_LISTS[number];
 
 // SERVER-SIDE DATA LOADER
+// Loads one page of collections - search, tag filter, tab, sort and page cursor come from the URL search params
 export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const listParams = parseCollectionListParams(new URL(request.url).searchParams);
+
   try {
     const { admin, session } = await authenticate.admin(request);
 
-    const [collectionsResponse, tagsResponse] = await Promise.all([
-      admin.graphql(`
-        #graphql
-        query GetCollections($first: Int!, $productsFirst: Int!) {
-          collections(first: $first) {
-            edges {
-              node {
-                id
-                title
-                productsCount {
-                  count
-                }
-                products(first: $productsFirst) {
-                  edges {
-                    node {
-                      id
-                      tags
-                    }
-                  }
-                }
-              }
-            }
-          }
-        }
-      `, {
-        variables: { 
-          first: 50,
-          productsFirst: 10
-        }
-      }),
-    admin.graphql(`
-      #graphql
-      query GetProductTags($first: Int!) {
-        productTags(first: $first) {
-          edges {
-            node
-          }
-        }
-      }
-    `, {
-      variables: { first: 1000 }
-    })
-  ]);
-
-  const [collectionsData, tagsData] = await Promise.all([
-    collectionsResponse.json(),
-    tagsResponse.json()
-  ]);
-  
-  const collections = collectionsData.data?.collections?.edges?.map((edge: any) => {
-    const collection = edge.node;
-    const productTags = new Set<string>();
-    collection.products?.edges?.forEach((productEdge: any) => {
-      (productEdge.node.tags || []).forEach((tag: string) => productTags.add(tag));
-    });
-    
-    return {
-      ...collection,
-      productTags: Array.from(productTags)
-    };
-  }) || [];
-  
-  const productTags = tagsData.data?.productTags?.edges?.map((edge: any) => edge.node) || [];
-
-    const existingSettings = await db.collectionSetting.findMany({
-      where: { shop: session.shop },
-    });
+    const [settingRows, tagRows] = await Promise.all([
+      db.collectionSetting.findMany({ where: { shop: session.shop } }),
+      db.exclusionTag.findMany({ where: { shop: session.shop } }),
+    ]);
+
+    const enabledCollectionIds = settingRows
+      .filter((setting: { enabled: boolean }) => setting.enabled)
+      .map((setting: { collectionId: string }) => setting.collectionId);
+
+    const collectionPage = await fetchCollectionPage(admin, session.shop, listParams);
+
+    // Attach each collection's tags, split by what they do (keep in place, push down, boost)
+    const tagsFor = (collectionId: string, kind: string) => tagRows
+      .filter((row: { collectionId: string; kind: string }) => row.collectionId === collectionId && (row.kind || 'exclude') === kind)
+      .map((row: { tag: string }) => row.tag);
+    const existingSettings = settingRows.map((setting: { collectionId: string }) => ({
+      ...setting,
+      exclusionTags: tagsFor(setting.collectionId, 'exclude'),
+      pushDownTags: tagsFor(setting.collectionId, 'push_down'),
+      boostTags: tagsFor(setting.collectionId, 'boost'),
+    }));
+
+    const [locations, salesContexts, originalSortOrders] = await Promise.all([
+      fetchShopLocations(admin),
+      fetchSalesContexts(admin),
+      getOriginalSortOrders(session.shop),
+    ]);
 
     return json({
-      collections,
-      productTags,
+      collections: collectionPage.collections,
+      pageInfo: collectionPage.pageInfo,
+      isPartial: collectionPage.isPartial,
+      listParams,
+      enabledCount: enabledCollectionIds.length,
+      locations,
+      salesContexts,
+      originalSortOrders,
       shop: session.shop,
       existingSettings,
     });
@@ -131,7 +117,13 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     console.error('Error loading collections data:', error);
     return json({
       collections: [],
-      productTags: [],
+      pageInfo: { hasNextPage: false, hasPreviousPage: false, startCursor: null, endCursor: null },
+      isPartial: false,
+      listParams,
+      enabledCount: 0,
+      locations: [],
+      salesContexts: [],
+      originalSortOrders: [],
       shop: '',
       existingSettings: [],
       error: 'Failed to load collections data. Please try again.',
@@ -139,63 +131,109 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   }
 };
 
+/**
+ * Reads a posted JSON field - null when it's missing, undefined when it isn't valid JSON
+ */
+function parseJsonField(value: string | undefined): unknown {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads a posted JSON list of strings (tags, location ids) - empty when missing, undefined when malformed
+ */
+function parseStringListField(value: string | undefined): string[] | undefined {
+  const parsed = parseJsonField(value);
+  if (parsed === null) return [];
+  return Array.isArray(parsed) && parsed.every(item => typeof item === 'string') ? parsed : undefined;
+}
+
 export const action = async ({ request }: ActionFunctionArgs) => {
   const { admin, session } = await authenticate.admin(request);
   const formData = await request.formData();
   const action = formData.get('action')?.toString();
   
   if (action === 'updateSetting') {
-    let operationTag = null;
+    // Echoed back so the supervisor can match the response to its operation
+    const operationTag = parseJsonField(formData.get('operationTag')?.toString());
+    const exclusionTags = parseStringListField(formData.get('exclusionTags')?.toString());
+    const pushDownTags = parseStringListField(formData.get('pushDownTags')?.toString());
+    const boostTags = parseStringListField(formData.get('boostTags')?.toString());
+    const stockLocationIds = parseStringListField(formData.get('stockLocationIds')?.toString());
+
+    if (operationTag === undefined || !exclusionTags || !pushDownTags || !boostTags || !stockLocationIds) {
+      return json({ success: false, error: 'Malformed collection setting', operationTag: operationTag ?? null }, { status: 400 });
+    }
+
     try {
       const collectionId = formData.get('collectionId')?.toString();
       const enabled = formData.get('enabled')?.toString() === 'true';
       const sortType = formData.get('sortType')?.toString();
-      const exclusionTagsStr = formData.get('exclusionTags')?.toString();
-      const exclusionTags = exclusionTagsStr ? JSON.parse(exclusionTagsStr) : [];
-      const operationTagStr = formData.get('operationTag')?.toString();
-      operationTag = operationTagStr ? JSON.parse(operationTagStr) : null;
+      const lowStockThreshold = Math.max(0, parseInt(formData.get('lowStockThreshold')?.toString() || '0', 10) || 0);
+      const lowStockBoost = formData.get('lowStockBoost')?.toString() === 'true';
+      const variantRatioThreshold = Math.min(100, Math.max(0, parseInt(formData.get('variantRatioThreshold')?.toString() || '0', 10) || 0));
+      const variantRatioOption = formData.get('variantRatioOption')?.toString() || null;
+      const salesContextId = formData.get('salesContextId')?.toString() || null;
+      const salesWindowDays = parseSalesWindowDays(formData.get('salesWindowDays')?.toString());
       
       await db.collectionSetting.upsert({
         where: { shop_collectionId: { shop: session.shop, collectionId: collectionId! } },
-        update: { enabled, sortType, updatedAt: new Date() },
-        create: { shop: session.shop, collectionId: collectionId!, enabled, sortType },
+        update: { enabled, sortType, lowStockThreshold, lowStockBoost, variantRatioThreshold, variantRatioOption, stockLocationIds, salesContextId, salesWindowDays, updatedAt: new Date() },
+        create: { shop: session.shop, collectionId: collectionId!, enabled, sortType, lowStockThreshold, lowStockBoost, variantRatioThreshold, variantRatioOption, stockLocationIds, salesContextId, salesWindowDays },
       });
       
       await db.exclusionTag.deleteMany({ where: { shop: session.shop, collectionId: collectionId } });
-      if (exclusionTags.length > 0) {
-        await db.exclusionTag.createMany({
-          data: exclusionTags.map((tag: string) => ({ shop: session.shop, collectionId: collectionId!, tag })),
-          skipDuplicates: true,
-        });
+      const tagRows = [
+        ...exclusionTags.map(tag => ({ shop: session.shop, collectionId: collectionId!, tag, kind: 'exclude' })),
+        ...pushDownTags.map(tag => ({ shop: session.shop, collectionId: collectionId!, tag, kind: 'push_down' })),
+        ...boostTags.map(tag => ({ shop: session.shop, collectionId: collectionId!, tag, kind: 'boost' })),
+      ];
+      if (tagRows.length > 0) {
+        // A tag can only have one kind per collection - the first list it appears in wins
+        await db.exclusionTag.createMany({ data: tagRows, skipDuplicates: true });
       }
       
-      let sortStats = null;
+      // Sorting runs in the background worker - hand the UI a job id to poll instead of waiting here
+      let jobId = null;
       if (enabled) {
-        const { fetchCollectionProducts, sortProductsWithInventory, reorderCollectionProducts, SORT_TYPE_MAPPING } = await import('../services/collection-sorting.server');
-        const collectionData = await fetchCollectionProducts(admin, collectionId!, sortType as keyof typeof SORT_TYPE_MAPPING);
-        const exclusionTagList = exclusionTags.map((tag: string) => tag.toLowerCase());
-        const { inStock, outOfStock } = sortProductsWithInventory(collectionData.products, exclusionTagList);
-        const sortedProductIds = [...inStock.map(p => p.id), ...outOfStock.map(p => p.id)];
-        const reorderResult = await reorderCollectionProducts(admin, collectionId!, sortedProductIds, sortType as keyof typeof SORT_TYPE_MAPPING);
-        
-        if (!reorderResult.success) {
-          return json({ success: false, error: `Settings saved but sort failed: ${reorderResult.error}`, operationTag });
-        }
-        sortStats = { inStockCount: inStock.length, outOfStockCount: outOfStock.length, totalProducts: sortedProductIds.length };
+        // Remember the order from before push down so it can be restored on disable
+        await snapshotOriginalOrder(admin, session.shop, collectionId!);
+
+        jobId = await enqueueSortJob(session.shop, collectionId!, 'manual');
       }
       
-      return json({ success: true, operationTag, stats: sortStats });
+      return json({ success: true, operationTag, jobId });
     } catch (error) {
       console.error('❌ SUPERVISOR Error saving collection setting:', error);
       return json({ success: false, error: `Failed to save setting: ${error instanceof Error ? error.message : String(error)}`, operationTag });
     }
   }
   
+  if (action === 'restoreOrder') {
+    const collectionId = formData.get('collectionId')?.toString() || '';
+    const mode = formData.get('mode')?.toString() === 'sort_order' ? 'sort_order' : 'manual_order';
+    try {
+      const result = await restoreOriginalOrder(admin, session.shop, collectionId, mode as RestoreMode);
+      return json({ ...result, restoredCollectionId: collectionId });
+    } catch (error) {
+      console.error('❌ Error restoring original order:', error);
+      return json({ success: false, error: `Failed to restore order: ${error instanceof Error ? error.message : String(error)}`, restoredCollectionId: collectionId });
+    }
+  }
+  
   return json({ success: false, error: 'Invalid action' });
 };
 
 export default function Collections() {
-  const { collections, productTags, error, existingSettings } = useLoaderData<typeof loader>();
+  const { collections, pageInfo, isPartial, listParams, enabledCount, locations, salesContexts, originalSortOrders, error, existingSettings } = useLoaderData<typeof loader>();
+  const restoreFetcher = useFetcher<typeof action>();
+  const [, setSearchParams] = useSearchParams();
+  const navigation = useNavigation();
+  const isLoadingPage = navigation.state === 'loading' && navigation.location?.pathname === '/app/collections';
   
   const {
     uiState: collectionSettings,
@@ -204,11 +242,17 @@ export default function Collections() {
     retryOperation,
   } = useSupervisor(collections || [], existingSettings || []);
   
-  const [availableTags, setAvailableTags] = useState<string[]>([]);
   const [toastMessage, setToastMessage] = useState<string | null>(null);
-  const [selectedTab, setSelectedTab] = useState(0);
-  const [queryValue, setQueryValue] = useState('');
-  const [sortValue, setSortValue] = useState('bestsellers');
+  const [queryValue, setQueryValue] = useState(listParams.query);
+  const [locationPopoverId, setLocationPopoverId] = useState<string | null>(null);
+  const [restorePromptId, setRestorePromptId] = useState<string | null>(null);
+  
+  // Report the outcome of restoring a collection's original order
+  React.useEffect(() => {
+    if (restoreFetcher.state !== 'idle' || !restoreFetcher.data || !('restoredCollectionId' in restoreFetcher.data)) return;
+    setRestorePromptId(null);
+    setToastMessage(restoreFetcher.data.success ? 'Original order restored' : `Restore failed: ${restoreFetcher.data.error || 'Unknown error'}`);
+  }, [restoreFetcher.state, restoreFetcher.data]);
   
   React.useEffect(() => {
     Object.entries(operationStatus).forEach(([collectionId, status]) => {
@@ -216,9 +260,8 @@ export default function Collections() {
         const collection = collections.find(c => c.id === collectionId);
         const collectionName = collection?.title || collectionId;
         const isEnabled = collectionSettings[collectionId]?.enabled;
-        if (isEnabled && status.serverResponseData?.inStockCount !== undefined) {
-          const { inStockCount, outOfStockCount } = status.serverResponseData;
-          setToastMessage(`${collectionName} sorted! ${inStockCount} in-stock, ${outOfStockCount} moved to bottom`);
+        if (isEnabled && status.serverResponseData?.tierCounts) {
+          setToastMessage(`${collectionName} sorted! ${formatTierCounts(status.serverResponseData.tierCounts)}`);
         } else {
           setToastMessage(`${collectionName} settings saved!`);
         }
@@ -230,80 +273,114 @@ export default function Collections() {
     });
   }, [operationStatus, collectionSettings, collections]);
   
-  if (!collections || collections.length === 0) {
-    return (
-      <Page title="Collections">
-        <Layout>
-          <Layout.Section>
-            <Card sectioned>
-              <Text variant="bodyMd">Loading collections or no collections found.</Text>
-              {error && <Banner tone="critical"><p>{error}</p></Banner>}
-            </Card>
-          </Layout.Section>
-        </Layout>
-      </Page>
-    );
-  }
-  
-  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  // Changes the list params in the URL, which loads the matching page of collections
+  // Any change other than paging starts again from the first page
+  const updateListParams = useCallback((changes: Record<string, string | string[] | null>) => {
+    setSearchParams(previous => {
+      const next = new URLSearchParams(previous);
+      if (!('after' in changes) && !('before' in changes)) {
+        next.delete('after');
+        next.delete('before');
+      }
+      Object.entries(changes).forEach(([key, value]) => {
+        next.delete(key);
+        (Array.isArray(value) ? value : value ? [value] : []).forEach(item => next.append(key, item));
+      });
+      return next;
+    });
+  }, [setSearchParams]);
+
+  // Search once the merchant pauses typing
+  React.useEffect(() => {
+    if (queryValue.trim() === listParams.query) return;
+    const timeout = setTimeout(() => updateListParams({ query: queryValue.trim() || null }), 300);
+    return () => clearTimeout(timeout);
+  }, [queryValue, listParams.query, updateListParams]);
+
+  const tagFilter = listParams.tags;
+  const selectedTab = listParams.tab === 'enabled' ? 1 : 0;
   const { mode, setMode } = useSetIndexFiltersMode();
   
-  React.useEffect(() => {
-    if (productTags && Array.isArray(productTags)) {
-      setAvailableTags(productTags);
+  const tabs = [
+    { content: 'All', index: 0, onAction: () => handleTabChange(0), id: 'all-collections-1' },
+    { content: `Push down enabled (${enabledCount})`, index: 1, onAction: () => handleTabChange(1), id: 'enabled-collections-2' },
+  ];
+
+  const resourceIDResolver = (collection: any) => collection.id;
+
+  const { selectedResources, allResourcesSelected, handleSelectionChange } = useIndexResourceState(collections, { resourceIDResolver });
+
+  const handleStatusToggle = useCallback((collectionId: string) => {
+    const wasEnabled = collectionSettings[collectionId]?.enabled;
+    updateCollection(collectionId, { enabled: !wasEnabled });
+    // Offer to undo our ordering when there's a saved original order to go back to
+    if (wasEnabled && (originalSortOrders || []).some((original: any) => original.collectionId === collectionId)) {
+      setRestorePromptId(collectionId);
     }
-  }, [productTags]);
+  }, [collectionSettings, updateCollection, originalSortOrders]);
 
-  const enabledCollections = collections.filter((collection: any) => collectionSettings[collection.id]?.enabled);
+  const handleRestore = useCallback((mode: string) => {
+    if (!restorePromptId) return;
+    restoreFetcher.submit({ action: 'restoreOrder', collectionId: restorePromptId, mode }, { method: 'POST' });
+  }, [restorePromptId, restoreFetcher]);
 
-  const tabs = [
-    { content: `All (${collections.length})`, index: 0, onAction: () => handleTabChange(0), id: 'all-collections-1' },
-    { content: `Push down enabled (${enabledCollections.length})`, index: 1, onAction: () => handleTabChange(1), id: 'enabled-collections-2' },
-  ];
+  const handleSortTypeChange = useCallback((collectionId: string, sortType: string) => {
+    if (!collectionSettings[collectionId]?.enabled) return;
+    updateCollection(collectionId, { sortType });
+  }, [collectionSettings, updateCollection]);
 
-  const filteredCollections = selectedTab === 0 ? collections : enabledCollections;
+  const handleSalesWindowChange = useCallback((collectionId: string, value: string) => {
+    if (!collectionSettings[collectionId]?.enabled) return;
+    updateCollection(collectionId, { salesWindowDays: parseSalesWindowDays(value) });
+  }, [collectionSettings, updateCollection]);
 
-  const searchedCollections = filteredCollections.filter((collection: any) => {
-    const matchesSearch = collection.title.toLowerCase().includes(queryValue.toLowerCase());
-    const matchesTagFilter = tagFilter.length === 0 || (collection.productTags || []).some((tag: string) => tagFilter.includes(tag));
-    return matchesSearch && matchesTagFilter;
-  });
+  const handleLowStockThresholdChange = useCallback((collectionId: string, value: string) => {
+    if (!collectionSettings[collectionId]?.enabled) return;
+    updateCollection(collectionId, { lowStockThreshold: parseInt(value, 10) || 0 });
+  }, [collectionSettings, updateCollection]);
 
-  const sortedCollections = React.useMemo(() => {
-    return [...searchedCollections].sort((a, b) => {
-      if (sortValue === 'name_asc') return a.title.localeCompare(b.title);
-      if (sortValue === 'name_desc') return b.title.localeCompare(a.title);
-      if (sortValue === 'products_asc') return (a.productsCount?.count || 0) - (b.productsCount?.count || 0);
-      if (sortValue === 'products_desc') return (b.productsCount?.count || 0) - (a.productsCount?.count || 0);
-      return 0;
-    });
-  }, [searchedCollections, sortValue]);
+  const handleLowStockBoostChange = useCallback((collectionId: string, lowStockBoost: boolean) => {
+    if (!collectionSettings[collectionId]?.enabled) return;
+    updateCollection(collectionId, { lowStockBoost });
+  }, [collectionSettings, updateCollection]);
 
-  const resourceIDResolver = (collection: any) => collection.id;
+  const handleVariantRatioThresholdChange = useCallback((collectionId: string, value: string) => {
+    if (!collectionSettings[collectionId]?.enabled) return;
+    updateCollection(collectionId, { variantRatioThreshold: parseInt(value, 10) || 0 });
+  }, [collectionSettings, updateCollection]);
 
-  const { selectedResources, allResourcesSelected, handleSelectionChange } = useIndexResourceState(sortedCollections, { resourceIDResolver });
+  const handleVariantRatioOptionChange = useCallback((collectionId: string, variantRatioOption: string) => {
+    if (!collectionSettings[collectionId]?.enabled) return;
+    updateCollection(collectionId, { variantRatioOption });
+  }, [collectionSettings, updateCollection]);
 
-  const handleStatusToggle = useCallback((collectionId: string) => {
-    updateCollection(collectionId, { enabled: !collectionSettings[collectionId]?.enabled });
+  const handleStockLocationsChange = useCallback((collectionId: string, stockLocationIds: string[]) => {
+    if (!collectionSettings[collectionId]?.enabled) return;
+    updateCollection(collectionId, { stockLocationIds });
   }, [collectionSettings, updateCollection]);
 
-  const handleSortTypeChange = useCallback((collectionId: string, sortType: string) => {
+  const handleSalesContextChange = useCallback((collectionId: string, salesContextId: string) => {
     if (!collectionSettings[collectionId]?.enabled) return;
-    updateCollection(collectionId, { sortType });
+    updateCollection(collectionId, { salesContextId });
   }, [collectionSettings, updateCollection]);
 
   const handleBulkEnable = useCallback(() => selectedResources.forEach(id => updateCollection(id, { enabled: true })), [selectedResources, updateCollection]);
   const handleBulkDisable = useCallback(() => selectedResources.forEach(id => updateCollection(id, { enabled: false })), [selectedResources, updateCollection]);
 
-  const handleTagAdd = useCallback((collectionId: string, tag: string) => {
-    updateCollection(collectionId, { exclusionTags: [...(collectionSettings[collectionId]?.exclusionTags || []), tag] });
+  // A tag lives in one list per collection - adding it to one list takes it out of the others
+  const handleTagAdd = useCallback((collectionId: string, tag: string, list: TagList = 'exclusionTags') => {
+    const current = collectionSettings[collectionId];
+    const updates = Object.fromEntries(TAG_LISTS.map(other => [other, (current?.[other] || []).filter(t => t !== tag)]));
+    updateCollection(collectionId, { ...updates, [list]: [...(current?.[list] || []).filter(t => t !== tag), tag] });
   }, [collectionSettings, updateCollection]);
 
-  const handleTagRemove = useCallback((collectionId: string, tag: string) => {
-    updateCollection(collectionId, { exclusionTags: (collectionSettings[collectionId]?.exclusionTags || []).filter(t => t !== tag) });
+  const handleTagRemove = useCallback((collectionId: string, tag: string, list: TagList = 'exclusionTags') => {
+    updateCollection(collectionId, { [list]: (collectionSettings[collectionId]?.[list] || []).filter(t => t !== tag) });
   }, [collectionSettings, updateCollection]);
 
-  const handleTabChange = useCallback((tabIndex: number) => setSelectedTab(tabIndex), []);
+  const handleTabChange = useCallback((tabIndex: number) => updateListParams({ tab: tabIndex === 1 ? 'enabled' : null }), [updateListParams]);
+  const handleListSort = useCallback((selected: string[]) => updateListParams({ sort: selected[0] === DEFAULT_COLLECTION_LIST_SORT ? null : selected[0] }), [updateListParams]);
+  const handleTagFilterChange = useCallback((tags: string[]) => updateListParams({ tag: tags }), [updateListParams]);
 
   const sortOptions = [
     { label: 'Best Selling', value: 'bestsellers asc' },
@@ -314,41 +391,104 @@ export default function Collections() {
     { label: 'Newest', value: 'date_desc desc' },
     { label: 'Oldest', value: 'date_asc asc' },
     { label: 'Manually', value: 'manual asc' },
+    { label: 'Units sold', value: 'units_sold desc' },
+    { label: 'Revenue', value: 'revenue desc' },
+  ];
+
+  const salesWindowOptions = SALES_VELOCITY_WINDOWS.map(days => ({ label: `Last ${days} days`, value: `${days}` }));
+
+  const lowStockOptions = [
+    { label: 'Off', value: '0' },
+    { label: '1 or fewer', value: '1' },
+    { label: '2 or fewer', value: '2' },
+    { label: '3 or fewer', value: '3' },
+    { label: '5 or fewer', value: '5' },
+    { label: '10 or fewer', value: '10' },
   ];
 
+  const variantRatioOptions = [
+    { label: 'Any variant in stock', value: '0' },
+    { label: '25% of variants', value: '25' },
+    { label: '50% of variants', value: '50' },
+    { label: '75% of variants', value: '75' },
+    { label: 'All variants', value: '100' },
+  ];
+
+  // Markets and sales channels whose availability can drive the push-down
+  const salesContextOptions = [
+    { label: 'All markets and channels', value: '' },
+    ...(salesContexts || []).map((context: any) => ({ label: `${context.type === 'market' ? 'Market' : 'Channel'}: ${context.name}`, value: context.id })),
+  ];
+
+  const locationChoices = (locations || []).map((location: any) => ({ label: location.name, value: location.id }));
+
   const filters = [
-    { key: 'tagFilter', label: 'Tagged with', filter: <ChoiceList title="Tagged with" titleHidden choices={availableTags.map(tag => ({ label: tag, value: tag }))} selected={tagFilter} onChange={setTagFilter} allowMultiple />, shortcut: true, pinned: true },
+    { key: 'tagFilter', label: 'Tagged with', filter: <TagAutocomplete selectedTags={tagFilter} onAddTag={(tag: string) => handleTagFilterChange([...tagFilter, tag])} onRemoveTag={(tag: string) => handleTagFilterChange(tagFilter.filter(t => t !== tag))} placeholder="Filter by tag" label="Tagged with" />, shortcut: true, pinned: true },
   ];
 
   const handleFiltersQueryChange = useCallback((value: string) => setQueryValue(value), []);
   const handleFiltersClearAll = useCallback(() => {
     setQueryValue('');
-    setSortValue('bestsellers');
-    setSelectedTab(0);
-    setTagFilter([]);
-  }, []);
+    updateListParams({ query: null, tag: null, tab: null, sort: null });
+  }, [updateListParams]);
 
   const handleSearchCancel = useCallback(() => {
     handleFiltersClearAll();
     if (setMode) setMode('DEFAULT');
   }, [handleFiltersClearAll, setMode]);
 
-  const appliedFilters = tagFilter.map((tag) => ({ key: `tagFilter-${tag}`, label: `Tagged with: ${tag}`, onRemove: () => setTagFilter(prev => prev.filter(t => t !== tag)) }));
+  const appliedFilters = tagFilter.map((tag) => ({ key: `tagFilter-${tag}`, label: `Tagged with: ${tag}`, onRemove: () => handleTagFilterChange(tagFilter.filter(t => t !== tag)) }));
+
+  // Shopify sort orders a collection can be restored to
+  const sortOrderLabels: Record<string, string> = {
+    BEST_SELLING: 'Best selling',
+    ALPHA_ASC: 'Product title A-Z',
+    ALPHA_DESC: 'Product title Z-A',
+    PRICE_DESC: 'Highest price',
+    PRICE_ASC: 'Lowest price',
+    CREATED_DESC: 'Newest',
+    CREATED: 'Oldest',
+    MANUAL: 'Manual',
+  };
+  const restorePrompt = restorePromptId ? (originalSortOrders || []).find((original: any) => original.collectionId === restorePromptId) : null;
+  const restoreCollectionTitle = restorePromptId ? collections.find((c: any) => c.id === restorePromptId)?.title : '';
+  const restoreSecondaryActions = [
+    { content: 'Restore saved product order', onAction: () => handleRestore('manual_order'), loading: restoreFetcher.state !== 'idle' },
+    { content: 'Keep current order', onAction: () => setRestorePromptId(null) },
+  ];
 
   const promotedBulkActions = selectedResources.length > 0 ? [{ content: 'Enable push down', onAction: handleBulkEnable }, { content: 'Disable push down', onAction: handleBulkDisable }] : [];
 
-  const rowMarkup = sortedCollections.map((collection: any, index: number) => {
-    const { id, title, productsCount } = collection;
+  const rowMarkup = collections.map((collection: any, index: number) => {
+    const { id, title, productsCount, productOptions, isSmart } = collection;
     const settings = collectionSettings[id];
     const isEnabled = settings?.enabled || false;
     const sortType = settings?.sortType || 'bestsellers asc';
+    const lowStockThreshold = settings?.lowStockThreshold || 0;
+    const variantRatioThreshold = settings?.variantRatioThreshold || 0;
+    const variantRatioOption = settings?.variantRatioOption || '';
+    const stockLocationIds = settings?.stockLocationIds || [];
+    const salesContextId = settings?.salesContextId || '';
+    const countByOptions = [
+      { label: 'Count every variant', value: '' },
+      ...Array.from(new Set<string>([...(productOptions || []), ...(variantRatioOption ? [variantRatioOption] : [])]))
+        .map((name: string) => ({ label: `Count by ${name}`, value: name })),
+    ];
 
     return (
       <IndexTable.Row id={id} key={id} selected={selectedResources.includes(id)} position={index}>
         <IndexTable.Cell>
           <BlockStack gap="100">
             <Text variant="bodyMd" fontWeight="semibold" as="span">{title}</Text>
-            <Text variant="bodySm" tone="subdued" as="span">{productsCount?.count || 0} products</Text>
+            <InlineStack gap="200" blockAlign="center">
+              <Badge tone={isSmart ? 'info' : undefined}>{isSmart ? 'Smart' : 'Custom'}</Badge>
+              <Text variant="bodySm" tone="subdued" as="span">{productsCount?.count || 0} products</Text>
+              {isSmart && isEnabled && (
+                <Tooltip content="Products that newly match this collection's conditions are added at the end until the next re-sort, which runs automatically when the collection changes">
+                  <Icon source={InfoIcon} tone="subdued" />
+                </Tooltip>
+              )}
+            </InlineStack>
           </BlockStack>
         </IndexTable.Cell>
         <IndexTable.Cell>
@@ -359,10 +499,62 @@ export default function Collections() {
           </Tooltip>
         </IndexTable.Cell>
         <IndexTable.Cell>
-          <Select label="Sort type" labelHidden options={sortOptions} value={sortType} onChange={(value) => handleSortTypeChange(id, value)} disabled={!isEnabled} />
+          <BlockStack gap="100">
+            <Select label="Sort type" labelHidden options={sortOptions} value={sortType} onChange={(value) => handleSortTypeChange(id, value)} disabled={!isEnabled} />
+            {getSalesSortMetric(sortType) && (
+              <Select label="Sales window" labelHidden options={salesWindowOptions} value={`${settings?.salesWindowDays || DEFAULT_SALES_WINDOW_DAYS}`} onChange={(value) => handleSalesWindowChange(id, value)} disabled={!isEnabled} />
+            )}
+          </BlockStack>
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          <BlockStack gap="100">
+            <Select label="Low stock threshold" labelHidden options={lowStockOptions} value={`${lowStockThreshold}`} onChange={(value) => handleLowStockThresholdChange(id, value)} disabled={!isEnabled} />
+            <Checkbox label="Boost to top" checked={settings?.lowStockBoost || false} onChange={(checked) => handleLowStockBoostChange(id, checked)} disabled={!isEnabled || lowStockThreshold === 0} />
+          </BlockStack>
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          <BlockStack gap="100">
+            <Select label="In stock when" labelHidden options={variantRatioOptions} value={`${variantRatioThreshold}`} onChange={(value) => handleVariantRatioThresholdChange(id, value)} disabled={!isEnabled} />
+            {variantRatioThreshold > 0 && (
+              <Select label="Count by option" labelHidden options={countByOptions} value={variantRatioOption} onChange={(value) => handleVariantRatioOptionChange(id, value)} disabled={!isEnabled} />
+            )}
+            {salesContextOptions.length > 1 && (
+              <Select label="Available in" labelHidden options={salesContextOptions} value={salesContextId} onChange={(value) => handleSalesContextChange(id, value)} disabled={!isEnabled} />
+            )}
+            {locationChoices.length > 1 && (
+              <Popover active={locationPopoverId === id} onClose={() => setLocationPopoverId(null)} activator={
+                <Button size="slim" disclosure onClick={() => setLocationPopoverId(locationPopoverId === id ? null : id)} disabled={!isEnabled}>
+                  {stockLocationIds.length === 0 ? 'Shop locations' : `${stockLocationIds.length} location${stockLocationIds.length === 1 ? '' : 's'}`}
+                </Button>
+              }>
+                <Popover.Section>
+                  <ChoiceList title="Count stock at" choices={locationChoices} selected={stockLocationIds} onChange={(selected) => handleStockLocationsChange(id, selected)} allowMultiple />
+                </Popover.Section>
+              </Popover>
+            )}
+          </BlockStack>
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          <TagAutocomplete selectedTags={settings?.exclusionTags || []} onAddTag={(tag: string) => handleTagAdd(id, tag)} onRemoveTag={(tag: string) => handleTagRemove(id, tag)} placeholder="Add exclusion tag" label="Exclusion tags" labelHidden={true} disabled={!isEnabled} />
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          <BlockStack gap="200">
+            <BlockStack gap="100">
+              <Text as="span" variant="bodySm" tone="subdued">Always push down</Text>
+              <TagAutocomplete selectedTags={settings?.pushDownTags || []} onAddTag={(tag: string) => handleTagAdd(id, tag, 'pushDownTags')} onRemoveTag={(tag: string) => handleTagRemove(id, tag, 'pushDownTags')} placeholder="Add push-down tag (e.g., discontinued)" label="Push-down tags" labelHidden={true} disabled={!isEnabled} />
+            </BlockStack>
+            <BlockStack gap="100">
+              <Text as="span" variant="bodySm" tone="subdued">Boost to top</Text>
+              <TagAutocomplete selectedTags={settings?.boostTags || []} onAddTag={(tag: string) => handleTagAdd(id, tag, 'boostTags')} onRemoveTag={(tag: string) => handleTagRemove(id, tag, 'boostTags')} placeholder="Add boost tag" label="Boost tags" labelHidden={true} disabled={!isEnabled} />
+            </BlockStack>
+          </BlockStack>
         </IndexTable.Cell>
         <IndexTable.Cell>
-          <TagAutocomplete availableTags={availableTags} selectedTags={settings?.exclusionTags || []} onAddTag={(tag: string) => handleTagAdd(id, tag)} onRemoveTag={(tag: string) => handleTagRemove(id, tag)} placeholder="Add exclusion tag" label="Exclusion tags" labelHidden={true} disabled={!isEnabled} />
+          <InlineStack gap="300" wrap={false}>
+            <Button variant="plain" url={`/app/collections/${id.split('/').pop()}/preview`}>Preview</Button>
+            <Button variant="plain" url={`/app/collections/${id.split('/').pop()}/history`}>History</Button>
+            <Button variant="plain" url={`/app/collections/${id.split('/').pop()}/rules`}>Rules</Button>
+          </InlineStack>
         </IndexTable.Cell>
         <IndexTable.Cell>
           <div style={{ textAlign: 'center' }}>
@@ -388,15 +580,34 @@ export default function Collections() {
         <Layout>
           <Layout.Section>
             {error && <Banner tone="critical" title="Error loading data"><p>{error}</p></Banner>}
+            {isPartial && <Banner tone="warning" title="Some collections may be missing"><p>Many products have these tags, so only the collections of the first ones are listed.</p></Banner>}
             <Card padding="0">
-              <IndexFilters tabs={tabs} selected={selectedTab} onSelect={handleTabChange} sortOptions={[]} sortSelected={[]} onSort={() => {}} filters={filters} appliedFilters={appliedFilters} onClearAll={handleFiltersClearAll} queryValue={queryValue} queryPlaceholder="Search collections" onQueryChange={handleFiltersQueryChange} onQueryClear={handleSearchCancel} cancelAction={{ onAction: handleSearchCancel, disabled: false, loading: false }} canCreateNewView={false} mode={mode} setMode={setMode} />
-              <IndexTable resourceName={{ singular: 'collection', plural: 'collections' }} itemCount={sortedCollections.length} selectedItemsCount={allResourcesSelected ? 'All' : selectedResources.length} onSelectionChange={handleSelectionChange} promotedBulkActions={promotedBulkActions} headings={[{ title: 'Collection' }, { title: <Text as="span" variant="headingSm">Status</Text> }, { title: <Text as="span" variant="headingSm">Sort Type</Text> }, { title: <Text as="span" variant="headingSm">Exclusion Tags</Text> }, { title: '' }]}>
+              <IndexFilters tabs={tabs} selected={selectedTab} onSelect={handleTabChange} sortOptions={COLLECTION_LIST_SORT_OPTIONS} sortSelected={[listParams.sort]} onSort={handleListSort} filters={filters} appliedFilters={appliedFilters} onClearAll={handleFiltersClearAll} queryValue={queryValue} queryPlaceholder="Search collections" onQueryChange={handleFiltersQueryChange} onQueryClear={handleSearchCancel} cancelAction={{ onAction: handleSearchCancel, disabled: false, loading: false }} canCreateNewView={false} mode={mode} setMode={setMode} />
+              <IndexTable resourceName={{ singular: 'collection', plural: 'collections' }} itemCount={collections.length} loading={isLoadingPage} pagination={{ hasNext: pageInfo.hasNextPage, hasPrevious: pageInfo.hasPreviousPage, onNext: () => updateListParams({ after: pageInfo.endCursor, before: null }), onPrevious: () => updateListParams({ before: pageInfo.startCursor, after: null }) }} selectedItemsCount={allResourcesSelected ? 'All' : selectedResources.length} onSelectionChange={handleSelectionChange} promotedBulkActions={promotedBulkActions} headings={[{ title: 'Collection' }, { title: <Text as="span" variant="headingSm">Status</Text> }, { title: <Text as="span" variant="headingSm">Sort Type</Text> }, { title: <Text as="span" variant="headingSm">Low Stock</Text> }, { title: <Text as="span" variant="headingSm">In Stock When</Text> }, { title: <Text as="span" variant="headingSm">Exclusion Tags</Text> }, { title: <Text as="span" variant="headingSm">Push Down / Boost</Text> }, { title: '' }, { title: '' }]}>
                 {rowMarkup}
               </IndexTable>
             </Card>
           </Layout.Section>
         </Layout>
       </Page>
+      {restorePrompt && (
+        <Modal
+          open
+          onClose={() => setRestorePromptId(null)}
+          title={`Restore the original order of ${restoreCollectionTitle}?`}
+          primaryAction={restorePrompt.sortOrder !== 'MANUAL'
+            ? { content: `Restore "${sortOrderLabels[restorePrompt.sortOrder] || restorePrompt.sortOrder}" sorting`, onAction: () => handleRestore('sort_order'), loading: restoreFetcher.state !== 'idle' }
+            : undefined}
+          secondaryActions={restoreSecondaryActions}
+        >
+          <Modal.Section>
+            <Text as="p">
+              Push down kept this collection on manual sorting. Before it was first enabled, the collection was sorted by {sortOrderLabels[restorePrompt.sortOrder] || restorePrompt.sortOrder}.
+              You can switch back to that sort order, put products back in the exact order they were in, or keep the current order.
+            </Text>
+          </Modal.Section>
+        </Modal>
+      )}
       {toastMessage && <Toast content={toastMessage} onDismiss={() => setToastMessage(null)} />}
     </Frame>
   );
@@ -0,0 +1,182 @@
+// ORDER HISTORY PAGE
+// Lists the last orderings applied to a collection and rolls back to any of them
+// GET /app/collections/<numeric collection id>/history
+
+// REMIX FRAMEWORK IMPORTS
+import type { LoaderFunctionArgs, ActionFunctionArgs } from "@vercel/remix";
+import { json } from "@vercel/remix";
+import { useFetcher, useLoaderData } from "@remix-run/react";
+
+// REACT IMPORTS
+import { useEffect } from "react";
+
+// SHOPIFY POLARIS UI COMPONENTS
+import {
+  Page,
+  Layout,
+  Card,
+  IndexTable,
+  Text,
+  Badge,
+  Button,
+  Banner,
+  BlockStack,
+} from "@shopify/polaris";
+
+// SHOPIFY APP BRIDGE COMPONENTS
+import { TitleBar } from "@shopify/app-bridge-react";
+
+// SHOPIFY AUTHENTICATION, DATABASE AND SERVICES
+import { authenticate } from "../shopify.server";
+import db from "../db.server";
+import { getOrderHistory, ORDER_HISTORY_LIMIT, rollbackToVersion } from "../services/order-history.server";
+import { toGlobalId } from "../services/collection-resort.server";
+
+// SHARED SORT TIER HELPERS
+import { formatTierCounts, parseTierCounts } from "../utils/sort-tiers";
+import type { TierCounts } from "../utils/sort-tiers";
+
+interface OrderVersionSummary {
+  id: string;
+  version: number;
+  trigger: string;
+  productCount: number;
+  movesCount: number;
+  tierCounts: Partial<TierCounts> | null;
+  createdAt: string;
+}
+
+// SERVER-SIDE DATA LOADER
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const collectionId = toGlobalId('Collection', params.id || '');
+
+  const [collectionResponse, versions, setting] = await Promise.all([
+    admin.graphql(`
+      #graphql
+      query GetCollectionTitle($id: ID!) {
+        collection(id: $id) {
+          id
+          title
+        }
+      }
+    `, { variables: { id: collectionId } }),
+    getOrderHistory(session.shop, collectionId),
+    db.collectionSetting.findUnique({
+      where: { shop_collectionId: { shop: session.shop, collectionId } },
+      select: { enabled: true },
+    }),
+  ]);
+
+  const collectionData = await collectionResponse.json();
+
+  const versionSummaries: OrderVersionSummary[] = versions.map(version => ({
+    id: version.id,
+    version: version.version,
+    trigger: version.trigger,
+    productCount: version.productCount,
+    movesCount: version.movesCount,
+    tierCounts: parseTierCounts(version.tierCounts),
+    createdAt: version.createdAt.toISOString(),
+  }));
+
+  return json({
+    title: collectionData.data?.collection?.title || collectionId,
+    enabled: Boolean(setting?.enabled),
+    versions: versionSummaries,
+  });
+};
+
+// SERVER-SIDE FORM HANDLER - roll back to a recorded version
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const formData = await request.formData();
+  const versionId = formData.get('versionId')?.toString() || '';
+
+  try {
+    const result = await rollbackToVersion(admin, session.shop, versionId);
+    return json(result);
+  } catch (error) {
+    console.error('❌ Error rolling back collection order:', error);
+    return json({ success: false, error: `Failed to roll back: ${error instanceof Error ? error.message : String(error)}` });
+  }
+};
+
+// Labels for what caused each reorder
+const TRIGGER_LABELS: Record<string, string> = {
+  manual: 'Settings change',
+  webhook: 'Product or inventory update',
+  collection_update: 'Collection update',
+  schedule: 'Scheduled re-sort',
+  restore: 'Original order restored',
+  rollback: 'Rollback',
+};
+
+export default function CollectionOrderHistory() {
+  const { title, enabled, versions } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const rollingBackId = fetcher.state !== 'idle' ? fetcher.formData?.get('versionId') : null;
+
+  // Show the outcome of a rollback
+  useEffect(() => {
+    if (fetcher.state !== 'idle' || !fetcher.data) return;
+    if (fetcher.data.success) {
+      shopify.toast.show('Collection order rolled back');
+    } else {
+      shopify.toast.show(fetcher.data.error || 'Failed to roll back', { isError: true });
+    }
+  }, [fetcher.state, fetcher.data]);
+
+  const handleRollback = (versionId: string) => {
+    fetcher.submit({ versionId }, { method: 'POST' });
+  };
+
+  const rowMarkup = versions.map((version, index) => (
+    <IndexTable.Row id={version.id} key={version.id} position={index}>
+      <IndexTable.Cell>
+        <Text as="span" variant="bodyMd" fontWeight="semibold">#{version.version}</Text>
+      </IndexTable.Cell>
+      <IndexTable.Cell>{new Date(version.createdAt).toLocaleString()}</IndexTable.Cell>
+      <IndexTable.Cell>
+        <Badge>{TRIGGER_LABELS[version.trigger] || version.trigger}</Badge>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        <BlockStack gap="100">
+          <Text as="span" variant="bodyMd">{version.productCount} products, {version.movesCount} moved</Text>
+          {version.tierCounts && (
+            <Text as="span" variant="bodySm" tone="subdued">{formatTierCounts(version.tierCounts)}</Text>
+          )}
+        </BlockStack>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        {index > 0 && (
+          <Button size="slim" onClick={() => handleRollback(version.id)} loading={rollingBackId === version.id} disabled={Boolean(rollingBackId)}>
+            Roll back
+          </Button>
+        )}
+      </IndexTable.Cell>
+    </IndexTable.Row>
+  ));
+
+  return (
+    <Page title={`Order history: ${title}`} subtitle={`The last ${ORDER_HISTORY_LIMIT} orderings applied to this collection`} backAction={{ content: 'Collections', url: '/app/collections' }}>
+      <TitleBar title="Order history" />
+      <Layout>
+        <Layout.Section>
+          <BlockStack gap="400">
+            {enabled && (
+              <Banner tone="info">
+                <p>Push down is still enabled for this collection, so the next re-sort may change the order again after a rollback.</p>
+              </Banner>
+            )}
+            <Card padding="0">
+              <IndexTable resourceName={{ singular: 'version', plural: 'versions' }} itemCount={versions.length} selectable={false} emptyState={<Text as="p" tone="subdued" alignment="center">No reorders recorded yet</Text>} headings={[{ title: 'Version' }, { title: 'Applied' }, { title: 'Trigger' }, { title: 'Products' }, { title: '' }]}>
+                {rowMarkup}
+              </IndexTable>
+            </Card>
+          </BlockStack>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
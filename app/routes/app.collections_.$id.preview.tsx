@@ -0,0 +1,214 @@
+// SORT PREVIEW PAGE
+// Dry run of a collection sort - shows where every product would move and why, without reordering
+// GET /app/collections/<numeric collection id>/preview
+// POST pins or unpins a product at a fixed slot
+
+// REMIX FRAMEWORK IMPORTS
+import type { LoaderFunctionArgs, ActionFunctionArgs } from "@vercel/remix";
+import { json } from "@vercel/remix";
+import { useFetcher, useLoaderData } from "@remix-run/react";
+
+// REACT IMPORTS
+import { useEffect } from "react";
+
+// SHOPIFY POLARIS UI COMPONENTS
+import {
+  Page,
+  Layout,
+  Card,
+  IndexTable,
+  Text,
+  Badge,
+  BlockStack,
+  InlineStack,
+  Banner,
+  Button,
+  Select,
+} from "@shopify/polaris";
+
+// SHOPIFY APP BRIDGE COMPONENTS
+import { TitleBar } from "@shopify/app-bridge-react";
+
+// SHOPIFY AUTHENTICATION AND SERVICES
+import { authenticate } from "../shopify.server";
+import db from "../db.server";
+import { previewCollectionSort } from "../services/sort-preview.server";
+import { toGlobalId } from "../services/collection-resort.server";
+import { pinProduct, unpinProduct } from "../services/pinned-products.server";
+import { enqueueSortJob } from "../services/sort-queue.server";
+
+// SHARED SORT TIER HELPERS
+import { describePlacement, formatTierCounts, TIER_LABELS } from "../utils/sort-tiers";
+import type { TierName } from "../utils/sort-tiers";
+
+// SERVER-SIDE DATA LOADER
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const collectionId = toGlobalId('Collection', params.id || '');
+
+  try {
+    const preview = await previewCollectionSort(admin, session.shop, collectionId);
+    return json({ preview, error: null });
+  } catch (error) {
+    console.error('❌ Error previewing collection sort:', error);
+    return json({ preview: null, error: `Failed to preview sort: ${error instanceof Error ? error.message : String(error)}` });
+  }
+};
+
+// SERVER-SIDE FORM HANDLER - pin or unpin a product
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const collectionId = toGlobalId('Collection', params.id || '');
+  const formData = await request.formData();
+  const intent = formData.get('intent')?.toString();
+  const productId = formData.get('productId')?.toString() || '';
+
+  try {
+    if (intent === 'pin') {
+      await pinProduct(session.shop, collectionId, productId, Number(formData.get('position')?.toString() || 1));
+    } else if (intent === 'unpin') {
+      await unpinProduct(session.shop, collectionId, productId);
+    } else {
+      return json({ success: false, error: 'Invalid action' });
+    }
+
+    // Apply the new pins right away if push down is running for this collection
+    const setting = await db.collectionSetting.findUnique({
+      where: { shop_collectionId: { shop: session.shop, collectionId } },
+      select: { enabled: true },
+    });
+    if (setting?.enabled) {
+      await enqueueSortJob(session.shop, collectionId, 'manual');
+    }
+
+    return json({ success: true, error: null });
+  } catch (error) {
+    console.error('❌ Error updating pinned products:', error);
+    return json({ success: false, error: `Failed to update pins: ${error instanceof Error ? error.message : String(error)}` });
+  }
+};
+
+// Badge tone for each tier
+const TIER_TONES: Record<TierName, 'success' | 'attention' | 'critical' | 'info' | 'magic' | undefined> = {
+  pinned: 'info',
+  boosted: 'magic',
+  in_stock: 'success',
+  low_stock: 'attention',
+  out_of_stock: 'critical',
+  bottom: undefined,
+};
+
+export default function CollectionSortPreview() {
+  const { preview, error } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const isSaving = fetcher.state !== 'idle';
+
+  // Report failed pin changes - successful ones show up in the recomputed preview
+  useEffect(() => {
+    if (fetcher.state === 'idle' && fetcher.data && !fetcher.data.success) {
+      shopify.toast.show(fetcher.data.error || 'Failed to update pins', { isError: true });
+    }
+  }, [fetcher.state, fetcher.data]);
+
+  if (!preview) {
+    return (
+      <Page title="Sort preview" backAction={{ content: 'Collections', url: '/app/collections' }}>
+        <TitleBar title="Sort preview" />
+        <Banner tone="critical"><p>{error || 'Collection not found'}</p></Banner>
+      </Page>
+    );
+  }
+
+  const handlePin = (productId: string, position: number) => {
+    fetcher.submit({ intent: 'pin', productId, position: String(position) }, { method: 'POST' });
+  };
+
+  const handleUnpin = (productId: string) => {
+    fetcher.submit({ intent: 'unpin', productId }, { method: 'POST' });
+  };
+
+  // New pins take the lowest free slot; the slot can then be changed from the dropdown
+  const takenSlots = new Set(preview.rows.map(row => row.pinnedPosition).filter(Boolean));
+  let nextFreeSlot = 1;
+  while (takenSlots.has(nextFreeSlot)) nextFreeSlot++;
+  const slotOptions = Array.from({ length: Math.min(preview.rows.length, 50) }, (_, index) => ({
+    label: `Slot ${index + 1}`,
+    value: `${index + 1}`,
+  }));
+
+  const rowMarkup = preview.rows.map((row, index) => {
+    const change = row.currentPosition === null ? null : row.currentPosition - row.newPosition;
+
+    return (
+      <IndexTable.Row id={row.id} key={row.id} position={index}>
+        <IndexTable.Cell>
+          <Text as="span" variant="bodyMd" fontWeight="semibold">{row.newPosition}</Text>
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          <InlineStack gap="200">
+            <Text as="span" variant="bodyMd">{row.currentPosition ?? '—'}</Text>
+            {change !== null && change !== 0 && (
+              <Text as="span" variant="bodySm" tone={change > 0 ? 'success' : 'critical'}>
+                {change > 0 ? `▲ ${change}` : `▼ ${-change}`}
+              </Text>
+            )}
+          </InlineStack>
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          <Text as="span" variant="bodyMd">{row.title}</Text>
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          <Badge tone={TIER_TONES[row.tier]}>{TIER_LABELS[row.tier]}</Badge>
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          <BlockStack gap="100">
+            <Text as="span" variant="bodySm" tone="subdued">{describePlacement(row.placement)}</Text>
+            {row.outOfStockDays !== null && (
+              <Text as="span" variant="bodySm" tone="caution">
+                Out of stock for {row.outOfStockDays === 0 ? 'less than a day' : `${row.outOfStockDays} day${row.outOfStockDays === 1 ? '' : 's'}`}
+              </Text>
+            )}
+          </BlockStack>
+        </IndexTable.Cell>
+        <IndexTable.Cell>
+          {row.pinnedPosition ? (
+            <InlineStack gap="200" blockAlign="center" wrap={false}>
+              <Select label="Pinned slot" labelHidden options={slotOptions} value={`${row.pinnedPosition}`} onChange={(value) => handlePin(row.id, Number(value))} disabled={isSaving} />
+              <Button variant="plain" onClick={() => handleUnpin(row.id)} disabled={isSaving}>Unpin</Button>
+            </InlineStack>
+          ) : (
+            <Button variant="plain" onClick={() => handlePin(row.id, nextFreeSlot)} disabled={isSaving}>Pin</Button>
+          )}
+        </IndexTable.Cell>
+      </IndexTable.Row>
+    );
+  });
+
+  return (
+    <Page title={`Sort preview: ${preview.title}`} subtitle="Nothing is changed until push down runs for this collection" backAction={{ content: 'Collections', url: '/app/collections' }}>
+      <TitleBar title="Sort preview" />
+      <Layout>
+        <Layout.Section>
+          <BlockStack gap="400">
+            <Banner tone={preview.enabled ? 'info' : 'warning'}>
+              <BlockStack gap="100">
+                <p>{preview.enabled ? 'Push down is enabled - this is the order the next re-sort will apply.' : 'Push down is not enabled yet - this is the order enabling it would apply.'}</p>
+                <p>{formatTierCounts(preview.tierCounts) || 'No products'} · {preview.changedCount} of {preview.rows.length} products would change position</p>
+              </BlockStack>
+            </Banner>
+            {preview.isSmart && (
+              <Banner tone="info">
+                <p>This is a smart collection. Products that newly match its conditions are added at the end until the next re-sort, which is queued automatically when Shopify reports the change.</p>
+              </Banner>
+            )}
+            <Card padding="0">
+              <IndexTable resourceName={{ singular: 'product', plural: 'products' }} itemCount={preview.rows.length} selectable={false} headings={[{ title: 'New' }, { title: 'Current' }, { title: 'Product' }, { title: 'Tier' }, { title: 'Why' }, { title: 'Pin' }]}>
+                {rowMarkup}
+              </IndexTable>
+            </Card>
+          </BlockStack>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
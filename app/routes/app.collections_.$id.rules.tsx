@@ -0,0 +1,374 @@
+// COLLECTION SORTING RULES PAGE
+// Edits the rules that keep a collection's products in place, always push them down or boost them
+// (vendor, type, metafield, price, age...), how products are ordered inside each stock tier,
+// the grace period for new arrivals, the boost for restocked products and what happens to long out-of-stock products
+// GET /app/collections/<numeric collection id>/rules
+
+// REMIX FRAMEWORK IMPORTS
+import type { LoaderFunctionArgs, ActionFunctionArgs } from "@vercel/remix";
+import { json } from "@vercel/remix";
+import { useFetcher, useLoaderData } from "@remix-run/react";
+
+// REACT IMPORTS
+import { useEffect, useState } from "react";
+
+// SHOPIFY POLARIS UI COMPONENTS
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  BlockStack,
+  InlineStack,
+  Button,
+  Select,
+  TextField,
+} from "@shopify/polaris";
+
+// SHOPIFY APP BRIDGE COMPONENTS
+import { TitleBar } from "@shopify/app-bridge-react";
+
+// SHOPIFY AUTHENTICATION AND SERVICES
+import { authenticate } from "../shopify.server";
+import { toGlobalId } from "../services/collection-resort.server";
+import { fetchCollectionSortInfo } from "../services/collection-sorting.server";
+import { getCollectionSortingRules, saveCollectionSortingRules } from "../services/exclusion-rules.server";
+import type { CollectionRuleSets } from "../services/exclusion-rules.server";
+import { enqueueSortJob } from "../services/sort-queue.server";
+import { validateOutOfStockAction } from "../services/out-of-stock-actions.server";
+
+// CUSTOM COMPONENTS
+import { ExclusionRulesEditor } from "../components/ExclusionRulesEditor";
+import { SecondarySortEditor } from "../components/SecondarySortEditor";
+
+// SHARED RULE HELPERS
+import { parseRuleSet, RULE_KINDS, RULE_KIND_LABELS } from "../utils/exclusion-rules";
+import type { ExclusionRuleSet, RuleKind } from "../utils/exclusion-rules";
+import { parseSecondarySort } from "../utils/secondary-sort";
+import type { SecondarySortConfig, SecondarySortStep } from "../utils/secondary-sort";
+import {
+  changesCollectionProducts,
+  getOutOfStockTag,
+  OUT_OF_STOCK_ACTIONS,
+  OUT_OF_STOCK_ACTION_LABELS,
+  parseOutOfStockAction,
+} from "../utils/out-of-stock-actions";
+import type { OutOfStockActionConfig, OutOfStockActionKind } from "../utils/out-of-stock-actions";
+
+// SERVER-SIDE DATA LOADER
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const collectionId = toGlobalId('Collection', params.id || '');
+
+  const [collection, customCollectionsResponse, sortingRules] = await Promise.all([
+    fetchCollectionSortInfo(admin, collectionId),
+    // Products can only be added to custom collections - those are the "Sold Out" collection choices
+    admin.graphql(`
+      #graphql
+      query GetCustomCollections {
+        collections(first: 250, query: "collection_type:custom", sortKey: TITLE) {
+          nodes {
+            id
+            title
+          }
+        }
+      }
+    `),
+    getCollectionSortingRules(session.shop, collectionId),
+  ]);
+
+  const customCollectionsData = await customCollectionsResponse.json();
+  const customCollections: { id: string; title: string }[] = (customCollectionsData.data?.collections?.nodes || [])
+    .filter((collection: { id: string }) => collection.id !== collectionId);
+
+  return json({
+    collectionId,
+    title: collection.title,
+    isSmart: collection.isSmart,
+    customCollections,
+    ...sortingRules,
+  });
+};
+
+// SERVER-SIDE FORM HANDLER - save the rules and re-sort if push down is enabled
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const collectionId = toGlobalId('Collection', params.id || '');
+  const formData = await request.formData();
+
+  try {
+    const ruleSets = Object.fromEntries(
+      RULE_KINDS.map(kind => [kind, parseRuleSet(formData.get(kind)?.toString())])
+    ) as CollectionRuleSets;
+    const secondarySort = parseSecondarySort(formData.get('secondarySort')?.toString());
+    const newArrivalGraceDays = parseInt(formData.get('newArrivalGraceDays')?.toString() || '0', 10) || 0;
+    const restockBoostHours = parseInt(formData.get('restockBoostHours')?.toString() || '0', 10) || 0;
+    const outOfStockAction = parseOutOfStockAction(formData.get('outOfStockAction')?.toString());
+
+    const outOfStockActionError = await validateOutOfStockAction(admin, collectionId, outOfStockAction);
+    if (outOfStockActionError) {
+      return json({ success: false, resortQueued: false, error: outOfStockActionError });
+    }
+
+    const { enabled } = await saveCollectionSortingRules(session.shop, collectionId, {
+      ruleSets,
+      secondarySort,
+      newArrivalGraceDays,
+      restockBoostHours,
+      outOfStockAction,
+    });
+
+    if (enabled) {
+      await enqueueSortJob(session.shop, collectionId, 'manual');
+    }
+
+    return json({ success: true, resortQueued: enabled, error: null });
+  } catch (error) {
+    console.error('❌ Error saving exclusion rules:', error);
+    return json({ success: false, resortQueued: false, error: `Failed to save rules: ${error instanceof Error ? error.message : String(error)}` });
+  }
+};
+
+// What each kind of rule does, shown under its heading
+const RULE_KIND_DESCRIPTIONS: Record<RuleKind, string> = {
+  exclude: 'Matching products keep their position, like products with an exclusion tag. Global rules from the Settings page apply as well.',
+  push_down: 'Matching products always go to the bottom of the collection, even when in stock - e.g. discontinued or hidden clearance products.',
+  boost: 'Matching products are pulled to the top of the collection while they are in stock.',
+};
+
+const newArrivalGraceOptions = [
+  { label: 'Off', value: '0' },
+  { label: 'Created in the last 3 days', value: '3' },
+  { label: 'Created in the last 7 days', value: '7' },
+  { label: 'Created in the last 14 days', value: '14' },
+  { label: 'Created in the last 30 days', value: '30' },
+];
+
+const restockBoostOptions = [
+  { label: 'Off', value: '0' },
+  { label: 'Restocked in the last 24 hours', value: '24' },
+  { label: 'Restocked in the last 48 hours', value: '48' },
+  { label: 'Restocked in the last 3 days', value: '72' },
+  { label: 'Restocked in the last 7 days', value: '168' },
+];
+
+const outOfStockDaysOptions = [
+  { label: 'Off', value: '0' },
+  { label: 'Out of stock for 14 days', value: '14' },
+  { label: 'Out of stock for 30 days', value: '30' },
+  { label: 'Out of stock for 60 days', value: '60' },
+  { label: 'Out of stock for 90 days', value: '90' },
+];
+
+// Smart collections can only be tagged - Shopify picks their products from their conditions
+const getOutOfStockActionOptions = (isSmart: boolean) => OUT_OF_STOCK_ACTIONS.map(action => ({
+  label: OUT_OF_STOCK_ACTION_LABELS[action],
+  value: action,
+  disabled: isSmart && changesCollectionProducts(action),
+}));
+
+export default function CollectionExclusionRules() {
+  const {
+    collectionId,
+    title,
+    isSmart,
+    ruleSets: savedRuleSets,
+    secondarySort: savedSecondarySort,
+    newArrivalGraceDays: savedNewArrivalGraceDays,
+    restockBoostHours: savedRestockBoostHours,
+    outOfStockAction: savedOutOfStockAction,
+    customCollections,
+  } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const isSaving = fetcher.state !== 'idle';
+
+  const [ruleSets, setRuleSets] = useState<CollectionRuleSets>(savedRuleSets);
+  const [secondarySort, setSecondarySort] = useState<SecondarySortConfig>(savedSecondarySort);
+  const [newArrivalGraceDays, setNewArrivalGraceDays] = useState(`${savedNewArrivalGraceDays}`);
+  const [restockBoostHours, setRestockBoostHours] = useState(`${savedRestockBoostHours}`);
+  const [outOfStockAction, setOutOfStockAction] = useState<OutOfStockActionConfig>(savedOutOfStockAction);
+
+  const targetCollectionOptions = [
+    { label: 'Choose a collection', value: '' },
+    ...customCollections.map(collection => ({ label: collection.title, value: collection.id })),
+  ];
+
+  // Show the outcome of a save
+  useEffect(() => {
+    if (fetcher.state !== 'idle' || !fetcher.data) return;
+    if (fetcher.data.success) {
+      shopify.toast.show(fetcher.data.resortQueued ? 'Rules saved - re-sorting collection' : 'Rules saved');
+    } else {
+      shopify.toast.show(fetcher.data.error || 'Failed to save rules', { isError: true });
+    }
+  }, [fetcher.state, fetcher.data]);
+
+  const handleSave = () => {
+    fetcher.submit(
+      {
+        ...Object.fromEntries(RULE_KINDS.map(kind => [kind, JSON.stringify(ruleSets[kind])])),
+        secondarySort: JSON.stringify(secondarySort),
+        newArrivalGraceDays,
+        restockBoostHours,
+        outOfStockAction: JSON.stringify(outOfStockAction),
+      },
+      { method: 'POST' }
+    );
+  };
+
+  const handleRuleSetChange = (kind: RuleKind, ruleSet: ExclusionRuleSet) => {
+    setRuleSets(prev => ({ ...prev, [kind]: ruleSet }));
+  };
+
+  const handleSecondarySortChange = (tier: keyof SecondarySortConfig, steps: SecondarySortStep[]) => {
+    setSecondarySort(prev => ({ ...prev, [tier]: steps }));
+  };
+
+  return (
+    <Page title={`Sorting rules: ${title}`} subtitle="Incomplete conditions are ignored" backAction={{ content: 'Collections', url: '/app/collections' }}>
+      <TitleBar title="Sorting rules" />
+      <Layout>
+        {RULE_KINDS.map(kind => (
+          <Layout.Section key={kind}>
+            <Card>
+              <BlockStack gap="400">
+                <BlockStack gap="100">
+                  <Text as="h2" variant="headingMd">{RULE_KIND_LABELS[kind]}</Text>
+                  <Text as="p" variant="bodyMd" tone="subdued">{RULE_KIND_DESCRIPTIONS[kind]}</Text>
+                </BlockStack>
+
+                <ExclusionRulesEditor
+                  value={ruleSets[kind]}
+                  onChange={(ruleSet) => handleRuleSetChange(kind, ruleSet)}
+                  collectionId={collectionId}
+                  disabled={isSaving}
+                />
+              </BlockStack>
+            </Card>
+          </Layout.Section>
+        ))}
+
+        <Layout.Section>
+          {/* ORDER INSIDE EACH STOCK TIER */}
+          <Card>
+            <BlockStack gap="400">
+              <BlockStack gap="100">
+                <Text as="h2" variant="headingMd">Order within tiers</Text>
+                <Text as="p" variant="bodyMd" tone="subdued">
+                  Push down only decides which tier a product lands in. Inside a tier, products follow the collection sort order unless you choose another order here - e.g. out-of-stock products by soonest expected restock date.
+                </Text>
+              </BlockStack>
+
+              <SecondarySortEditor
+                title="In stock (including boosted and low stock)"
+                value={secondarySort.inStock}
+                onChange={(steps) => handleSecondarySortChange('inStock', steps)}
+                disabled={isSaving}
+              />
+
+              <SecondarySortEditor
+                title="Out of stock"
+                value={secondarySort.outOfStock}
+                onChange={(steps) => handleSecondarySortChange('outOfStock', steps)}
+                disabled={isSaving}
+              />
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          {/* NEW ARRIVALS AND RESTOCKS */}
+          <Card>
+            <BlockStack gap="400">
+              <BlockStack gap="100">
+                <Text as="h2" variant="headingMd">New arrivals and restocks</Text>
+                <Text as="p" variant="bodyMd" tone="subdued">
+                  New products often launch before their stock arrives. During the grace period they are never pushed down. Restocked products can be lifted to the top for a while so returning shoppers see them first - restocks are detected when a product goes from out of stock to in stock.
+                </Text>
+              </BlockStack>
+
+              <InlineStack gap="400" wrap>
+                <Select
+                  label="New-arrival grace period"
+                  options={newArrivalGraceOptions}
+                  value={newArrivalGraceDays}
+                  onChange={setNewArrivalGraceDays}
+                  disabled={isSaving}
+                />
+                <Select
+                  label="Boost restocked products"
+                  options={restockBoostOptions}
+                  value={restockBoostHours}
+                  onChange={setRestockBoostHours}
+                  disabled={isSaving}
+                />
+              </InlineStack>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          {/* LONG OUT-OF-STOCK PRODUCTS */}
+          <Card>
+            <BlockStack gap="400">
+              <BlockStack gap="100">
+                <Text as="h2" variant="headingMd">Long out-of-stock products</Text>
+                <Text as="p" variant="bodyMd" tone="subdued">
+                  After each re-sort, products that have been out of stock for longer than this can be tagged, removed from the collection or moved to a "Sold Out" collection. The tag is removed again once a product is back in stock. Days out of stock are counted from when the app first saw the product sell out.
+                </Text>
+              </BlockStack>
+
+              <InlineStack gap="400" wrap>
+                <Select
+                  label="When a product is"
+                  options={outOfStockDaysOptions}
+                  value={`${outOfStockAction.days}`}
+                  onChange={(days) => setOutOfStockAction(prev => ({ ...prev, days: Number(days) }))}
+                  disabled={isSaving}
+                />
+                {outOfStockAction.days > 0 && (
+                  <Select
+                    label="Then"
+                    options={getOutOfStockActionOptions(isSmart)}
+                    value={outOfStockAction.action}
+                    onChange={(action) => setOutOfStockAction(prev => ({ ...prev, action: action as OutOfStockActionKind }))}
+                    helpText={isSmart ? 'This is a smart collection - its conditions decide which products it contains, so products can only be tagged' : undefined}
+                    disabled={isSaving}
+                  />
+                )}
+                {outOfStockAction.days > 0 && outOfStockAction.action === 'tag' && (
+                  <TextField
+                    label="Tag"
+                    placeholder={getOutOfStockTag({ ...outOfStockAction, tag: '' })}
+                    value={outOfStockAction.tag}
+                    onChange={(tag) => setOutOfStockAction(prev => ({ ...prev, tag }))}
+                    autoComplete="off"
+                    disabled={isSaving}
+                  />
+                )}
+                {outOfStockAction.days > 0 && outOfStockAction.action === 'move' && (
+                  <Select
+                    label="Move to"
+                    options={targetCollectionOptions}
+                    value={outOfStockAction.targetCollectionId || ''}
+                    onChange={(targetCollectionId) => setOutOfStockAction(prev => ({ ...prev, targetCollectionId: targetCollectionId || null }))}
+                    helpText={outOfStockAction.targetCollectionId ? undefined : 'Nothing is moved until a collection is chosen'}
+                    disabled={isSaving}
+                  />
+                )}
+              </InlineStack>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <InlineStack gap="300" align="start">
+            <Button variant="primary" onClick={handleSave} loading={isSaving}>
+              Save Rules
+            </Button>
+          </InlineStack>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,24 @@
+// EXCLUSION RULE MATCH COUNT ENDPOINT
+// Queried by the rule editor (debounced) to show how many products the rules being edited match
+// GET /app/rule-matches?rules=<rule set JSON>&collectionId=<collection gid>
+
+import type { LoaderFunctionArgs } from "@vercel/remix";
+import { json } from "@vercel/remix";
+import { authenticate } from "../shopify.server";
+import { countRuleMatches } from "../services/exclusion-rules.server";
+import { parseRuleSet } from "../utils/exclusion-rules";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin } = await authenticate.admin(request);
+  const url = new URL(request.url);
+  const ruleSet = parseRuleSet(url.searchParams.get("rules"));
+  const collectionId = url.searchParams.get("collectionId") || null;
+
+  try {
+    const count = await countRuleMatches(admin, ruleSet, collectionId);
+    return json({ count, error: null });
+  } catch (error) {
+    console.error('❌ Error counting exclusion rule matches:', error);
+    return json({ count: null, error: `Failed to count matches: ${error instanceof Error ? error.message : String(error)}` });
+  }
+};
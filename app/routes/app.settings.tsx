@@ -5,10 +5,10 @@
 // REMIX FRAMEWORK IMPORTS
 import type { LoaderFunctionArgs, ActionFunctionArgs } from "@vercel/remix";
 import { json } from "@vercel/remix";
-import { useLoaderData } from "@remix-run/react";
+import { useFetcher, useLoaderData } from "@remix-run/react";
 
 // REACT IMPORTS
-import { useState } from "react";
+import { useEffect, useState } from "react";
 
 // SHOPIFY POLARIS UI COMPONENTS
 import {
@@ -22,8 +22,10 @@ import {
   Tag,
   Button,
   Checkbox,
+  Select,
   Icon,
   Tooltip,
+  ChoiceList,
 } from "@shopify/polaris";
 
 // SHOPIFY POLARIS ICONS
@@ -32,75 +34,108 @@ import { InfoIcon } from "@shopify/polaris-icons";
 // SHOPIFY APP BRIDGE COMPONENTS
 import { TitleBar } from "@shopify/app-bridge-react";
 
-// SHOPIFY AUTHENTICATION
+// SHOPIFY AUTHENTICATION AND DATABASE
 import { authenticate } from "../shopify.server";
+import db from "../db.server";
+
+// SERVICES
+import {
+  DEFAULT_SHOP_SETTINGS,
+  getShopSettings,
+  parseStatusPolicy,
+  parseStockStrategy,
+  saveShopSettings,
+} from "../services/shop-settings.server";
+import { enqueueSortJob } from "../services/sort-queue.server";
+import { fetchShopLocations } from "../services/locations.server";
 
 // CUSTOM COMPONENTS
 import { TagAutocomplete } from "../components/TagAutocomplete";
+import { ExclusionRulesEditor } from "../components/ExclusionRulesEditor";
+
+// SHARED RULE HELPERS
+import { parseRuleSet } from "../utils/exclusion-rules";
+import type { ExclusionRuleSet } from "../utils/exclusion-rules";
 
 // SERVER-SIDE DATA LOADER
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { admin, session } = await authenticate.admin(request);
   
-  // FETCH ALL PRODUCT TAGS FROM SHOPIFY
-  // Get all unique tags used across all products for autocomplete suggestions
-  const tagsResponse = await admin.graphql(`
-    #graphql
-    query GetProductTags($first: Int!) {
-      products(first: $first) {
-        edges {
-          node {
-            tags  # Array of tag strings (e.g., ["sale", "featured", "preorder"])
-          }
-        }
-        pageInfo {
-          hasNextPage
-          endCursor
-        }
-      }
-    }
-  `, {
-    variables: { first: 250 }  // Fetch from first 250 products (most stores don't need more for tag discovery)
-  });
+  // LOAD SAVED GLOBAL SETTINGS (defaults until the shop saves for the first time)
+  const settings = await getShopSettings(session.shop);
+
+  // FETCH LOCATIONS FOR THE STOCK LOCATION PICKER
+  const locations = await fetchShopLocations(admin);
 
-  // Extract and flatten all unique tags from all products
-  const tagsData = await tagsResponse.json();
-  const allTags = tagsData.data?.products?.edges?.reduce((tags: string[], edge: any) => {
-    const productTags = edge.node.tags || [];
-    productTags.forEach((tag: string) => {
-      if (!tags.includes(tag.toLowerCase())) {
-        tags.push(tag.toLowerCase());
-      }
-    });
-    return tags;
-  }, []) || [];
-  
-  // Sort tags alphabetically for better UX
-  const sortedTags = allTags.sort();
-  
-  // TODO: Load global settings from database
-  // For now, return empty settings
   return json({
-    globalExclusionTags: [], // Global tags that apply to all collections
-    excludeContinueSellingProducts: true, // Exclude products with "continue selling when out of stock"
-    availableTags: sortedTags, // All unique product tags for autocomplete
+    globalExclusionTags: settings.globalExclusionTags, // Global tags that apply to all collections
+    excludeContinueSellingProducts: settings.excludeContinueSelling, // Exclude products with "continue selling when out of stock"
+    draftPolicy: settings.draftPolicy, // What happens to draft products
+    archivedPolicy: settings.archivedPolicy, // What happens to archived products
+    unpublishedPolicy: settings.unpublishedPolicy, // What happens to products not on the Online Store
+    stockStrategy: settings.stockStrategy, // How variants are judged in or out of stock
+    stockThreshold: settings.stockThreshold, // Quantity a variant must exceed for quantity_threshold
+    stockLocationIds: settings.stockLocationIds, // Locations whose inventory counts (empty = all)
+    globalExclusionRules: settings.globalExclusionRules, // Rules that keep matching products in place everywhere
+    locations, // All shop locations for the picker
     shop: session.shop,
   });
 };
 
 // SERVER-SIDE FORM HANDLER
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { admin } = await authenticate.admin(request);
-  
-  // TODO: Handle saving global settings to database
-  
-  return json({ success: true });
+  const { session } = await authenticate.admin(request);
+  const formData = await request.formData();
+
+  try {
+    const globalExclusionTagsStr = formData.get('globalExclusionTags')?.toString();
+    const stockLocationIdsStr = formData.get('stockLocationIds')?.toString();
+
+    await saveShopSettings(session.shop, {
+      globalExclusionTags: globalExclusionTagsStr ? JSON.parse(globalExclusionTagsStr) : [],
+      excludeContinueSelling: formData.get('excludeContinueSelling')?.toString() === 'true',
+      draftPolicy: parseStatusPolicy(formData.get('draftPolicy')?.toString(), DEFAULT_SHOP_SETTINGS.draftPolicy),
+      archivedPolicy: parseStatusPolicy(formData.get('archivedPolicy')?.toString(), DEFAULT_SHOP_SETTINGS.archivedPolicy),
+      unpublishedPolicy: parseStatusPolicy(formData.get('unpublishedPolicy')?.toString(), DEFAULT_SHOP_SETTINGS.unpublishedPolicy),
+      stockStrategy: parseStockStrategy(formData.get('stockStrategy')?.toString()),
+      stockThreshold: Number(formData.get('stockThreshold')?.toString() || 0),
+      stockLocationIds: stockLocationIdsStr ? JSON.parse(stockLocationIdsStr) : [],
+      globalExclusionRules: parseRuleSet(formData.get('globalExclusionRules')?.toString()),
+    });
+
+    // Global settings affect every enabled collection, so queue a re-sort for each of them
+    const enabledSettings = await db.collectionSetting.findMany({
+      where: { shop: session.shop, enabled: true },
+      select: { collectionId: true },
+    });
+    for (const { collectionId } of enabledSettings) {
+      await enqueueSortJob(session.shop, collectionId, 'manual');
+    }
+
+    return json({ success: true, resortQueued: enabledSettings.length });
+  } catch (error) {
+    console.error('❌ Error saving global settings:', error);
+    return json({ success: false, error: `Failed to save settings: ${error instanceof Error ? error.message : String(error)}` });
+  }
 };
 
 // MAIN REACT COMPONENT
 export default function Settings() {
   // GET DATA FROM SERVER
-  const { globalExclusionTags, excludeContinueSellingProducts, availableTags, shop } = useLoaderData<typeof loader>();
+  const {
+    globalExclusionTags,
+    excludeContinueSellingProducts,
+    draftPolicy: draftPolicySetting,
+    archivedPolicy: archivedPolicySetting,
+    unpublishedPolicy: unpublishedPolicySetting,
+    stockStrategy: stockStrategySetting,
+    stockThreshold: stockThresholdSetting,
+    stockLocationIds: stockLocationIdsSetting,
+    globalExclusionRules: globalExclusionRulesSetting,
+    locations,
+  } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const isSaving = fetcher.state !== 'idle';
   
   // COMPONENT STATE MANAGEMENT
   // Global exclusion tags that apply to all enabled collections
@@ -110,8 +145,30 @@ export default function Settings() {
   // Whether to exclude products with "continue selling when out of stock" enabled
   const [excludeContinueSelling, setExcludeContinueSelling] = useState<boolean>(excludeContinueSellingProducts);
   
-  // Whether to exclude draft products from sorting
-  const [excludeDraftProducts, setExcludeDraftProducts] = useState<boolean>(true);
+  // What happens to draft, archived and unpublished products when sorting
+  const [draftPolicy, setDraftPolicy] = useState<string>(draftPolicySetting);
+  const [archivedPolicy, setArchivedPolicy] = useState<string>(archivedPolicySetting);
+  const [unpublishedPolicy, setUnpublishedPolicy] = useState<string>(unpublishedPolicySetting);
+
+  // How a product's stock status is decided
+  const [stockStrategy, setStockStrategy] = useState<string>(stockStrategySetting);
+  const [stockThreshold, setStockThreshold] = useState<string>(String(stockThresholdSetting));
+
+  // Which locations' inventory counts towards stock (none selected = all locations)
+  const [stockLocationIds, setStockLocationIds] = useState<string[]>(stockLocationIdsSetting || []);
+
+  // Rules that keep matching products in place in every collection
+  const [exclusionRules, setExclusionRules] = useState<ExclusionRuleSet>(globalExclusionRulesSetting);
+
+  // Show the outcome of a save
+  useEffect(() => {
+    if (fetcher.state !== 'idle' || !fetcher.data) return;
+    if (fetcher.data.success) {
+      shopify.toast.show('Settings saved');
+    } else {
+      shopify.toast.show(('error' in fetcher.data && fetcher.data.error) || 'Failed to save settings', { isError: true });
+    }
+  }, [fetcher.state, fetcher.data]);
 
   // EVENT HANDLERS
   
@@ -128,6 +185,46 @@ export default function Settings() {
     setExclusionTags(prev => prev.filter(tag => tag !== tagToRemove));
   };
 
+  // Save all global settings
+  const handleSave = () => {
+    fetcher.submit(
+      {
+        globalExclusionTags: JSON.stringify(exclusionTags),
+        excludeContinueSelling: String(excludeContinueSelling),
+        draftPolicy,
+        archivedPolicy,
+        unpublishedPolicy,
+        stockStrategy,
+        stockThreshold,
+        stockLocationIds: JSON.stringify(stockLocationIds),
+        globalExclusionRules: JSON.stringify(exclusionRules),
+      },
+      { method: 'POST' }
+    );
+  };
+
+
+  // Stock classification options shown in the dropdown
+  const stockStrategyOptions = [
+    { label: 'Available for sale (Shopify default)', value: 'available_for_sale' },
+    { label: 'Inventory quantity above 0', value: 'quantity_positive' },
+    { label: 'Inventory quantity above a threshold', value: 'quantity_threshold' },
+    { label: 'Available for sale, ignoring oversell policy', value: 'ignore_oversell_policy' },
+  ];
+
+  // Location choices for the stock location picker
+  const locationChoices = locations.map(location => ({
+    label: location.isActive ? location.name : `${location.name} (inactive)`,
+    value: location.id,
+    helpText: location.fulfillsOnlineOrders ? 'Fulfills online orders' : undefined,
+  }));
+
+  // Status policy options shared by the draft/archived/unpublished dropdowns
+  const statusPolicyOptions = [
+    { label: 'Keep in place', value: 'keep' },
+    { label: 'Push to the very bottom (below out of stock)', value: 'bottom' },
+    { label: 'Sort by stock like active products', value: 'ignore' },
+  ];
 
   return (
     <Page>
@@ -147,7 +244,6 @@ export default function Settings() {
               </InlineStack>
 
               <TagAutocomplete
-                availableTags={availableTags}
                 selectedTags={exclusionTags}
                 onAddTag={handleAddTag}
                 onRemoveTag={handleRemoveTag}
@@ -157,6 +253,28 @@ export default function Settings() {
           </Card>
         </Layout.Section>
 
+        <Layout.Section>
+          {/* GLOBAL EXCLUSION RULES SECTION */}
+          <Card>
+            <BlockStack gap="400">
+              <InlineStack gap="200" align="start">
+                <Text as="h2" variant="headingMd">
+                  Global Exclusion Rules
+                </Text>
+                <Tooltip content="Products matching these rules keep their position in every collection, like products with an exclusion tag. Collections can add their own rules from the Collections page.">
+                  <Icon source={InfoIcon} tone="subdued" />
+                </Tooltip>
+              </InlineStack>
+
+              <ExclusionRulesEditor
+                value={exclusionRules}
+                onChange={setExclusionRules}
+                disabled={isSaving}
+              />
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
         <Layout.Section>
           {/* ADDITIONAL OPTIONS */}
           <Card>
@@ -167,6 +285,43 @@ export default function Settings() {
                 </Text>
               </InlineStack>
 
+              <Select
+                label="Treat a product as in stock when"
+                options={stockStrategyOptions}
+                value={stockStrategy}
+                onChange={setStockStrategy}
+                helpText="A product is in stock if any of its variants passes this check. Variants that don't track inventory always count as in stock."
+              />
+
+              {stockStrategy === 'quantity_threshold' && (
+                <TextField
+                  label="Minimum quantity"
+                  type="number"
+                  min={0}
+                  value={stockThreshold}
+                  onChange={setStockThreshold}
+                  autoComplete="off"
+                  helpText="Variants need more than this many units to count as in stock"
+                />
+              )}
+
+              {locationChoices.length > 1 && (
+                <ChoiceList
+                  title="Count stock at these locations"
+                  choices={locationChoices}
+                  selected={stockLocationIds}
+                  onChange={setStockLocationIds}
+                  allowMultiple
+                />
+              )}
+              {locationChoices.length > 1 && (
+                <Text as="p" variant="bodySm" tone="subdued">
+                  {stockLocationIds.length === 0
+                    ? 'No locations selected - inventory at every location counts.'
+                    : 'Only inventory at the selected locations counts. Collections can choose their own locations on the Collections page.'}
+                </Text>
+              )}
+
               <Checkbox
                 label='Exclude "Continue selling when out of stock" products'
                 checked={excludeContinueSelling}
@@ -174,7 +329,7 @@ export default function Settings() {
                 helpText={
                   <InlineStack gap="100" align="start">
                     <Text as="span" variant="bodySm">
-                      Products with this Shopify setting stay in position when out of stock
+                      Products with this Shopify setting stay in position when out of stock. When unchecked, they are judged by the rule above.
                     </Text>
                     <Tooltip content="Products set to 'Continue selling when out of stock' are typically intended for backorder/dropship, so they maintain their sorted position even at zero inventory.">
                       <Icon source={InfoIcon} tone="subdued" />
@@ -183,24 +338,38 @@ export default function Settings() {
                 }
               />
               
-              <Checkbox
-                label="Exclude draft products from sorting"
-                checked={excludeDraftProducts}
-                onChange={setExcludeDraftProducts}
-                helpText={
-                  <InlineStack gap="100" align="start">
-                    <Text as="span" variant="bodySm">
-                      Draft products maintain their position regardless of stock status
-                    </Text>
-                    <Tooltip content="Draft products are typically being prepared for launch and should not be affected by automatic sorting based on inventory levels.">
-                      <Icon source={InfoIcon} tone="subdued" />
-                    </Tooltip>
-                  </InlineStack>
-                }
+              <InlineStack gap="200" align="start">
+                <Text as="h3" variant="headingSm">
+                  Draft, archived and unpublished products
+                </Text>
+                <Tooltip content="Draft products are typically being prepared for launch, and archived or unpublished products aren't visible on the storefront, so they often shouldn't be sorted by inventory.">
+                  <Icon source={InfoIcon} tone="subdued" />
+                </Tooltip>
+              </InlineStack>
+
+              <Select
+                label="Draft products"
+                options={statusPolicyOptions}
+                value={draftPolicy}
+                onChange={setDraftPolicy}
+              />
+
+              <Select
+                label="Archived products"
+                options={statusPolicyOptions}
+                value={archivedPolicy}
+                onChange={setArchivedPolicy}
+              />
+
+              <Select
+                label="Active products not published to the Online Store"
+                options={statusPolicyOptions}
+                value={unpublishedPolicy}
+                onChange={setUnpublishedPolicy}
               />
 
               <InlineStack gap="300" align="start">
-                <Button variant="primary">
+                <Button variant="primary" onClick={handleSave} loading={isSaving}>
                   Save Settings
                 </Button>
               </InlineStack>
@@ -0,0 +1,17 @@
+// SORT JOB STATUS ENDPOINT
+// Polled by the collections page (via useSupervisor) to follow queued re-sorts
+// GET /app/sort-jobs?ids=<jobId>,<jobId>
+
+import type { LoaderFunctionArgs } from "@vercel/remix";
+import { json } from "@vercel/remix";
+import { authenticate } from "../shopify.server";
+import { getSortJobs } from "../services/sort-queue.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const url = new URL(request.url);
+  const jobIds = (url.searchParams.get("ids") || "").split(",").filter(Boolean);
+
+  const jobs = await getSortJobs(session.shop, jobIds);
+  return json({ jobs });
+};
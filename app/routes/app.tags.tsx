@@ -0,0 +1,21 @@
+// PRODUCT TAG SEARCH ENDPOINT
+// Queried by TagAutocomplete as the merchant types, backed by the shop's cached tag index
+// GET /app/tags?query=<search text>
+
+import type { LoaderFunctionArgs } from "@vercel/remix";
+import { json } from "@vercel/remix";
+import { authenticate } from "../shopify.server";
+import { searchTags } from "../services/tag-index.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const url = new URL(request.url);
+
+  try {
+    const tags = await searchTags(admin, session.shop, url.searchParams.get("query") || "");
+    return json({ tags, error: null });
+  } catch (error) {
+    console.error('❌ Error searching product tags:', error);
+    return json({ tags: [] as string[], error: `Failed to search tags: ${error instanceof Error ? error.message : String(error)}` });
+  }
+};
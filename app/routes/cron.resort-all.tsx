@@ -0,0 +1,31 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@vercel/remix";
+import { json } from "@vercel/remix";
+import { isAuthorizedCronRequest } from "../lib/cron-auth.server";
+import {
+  RESORT_INTERVALS,
+  getConfiguredInterval,
+  runScheduledResort,
+} from "../services/resort-scheduler.server";
+import type { ResortInterval } from "../services/resort-scheduler.server";
+
+// Queues a re-sort of every enabled collection for shops that are due.
+// Called hourly by Vercel Cron (GET); shops are only re-sorted once per configured interval.
+// An explicit ?interval=hourly|nightly overrides RESORT_SCHEDULE_INTERVAL for this call.
+async function runScheduler(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const requested = new URL(request.url).searchParams.get("interval");
+  const interval: ResortInterval =
+    requested && Object.hasOwn(RESORT_INTERVALS, requested)
+      ? (requested as ResortInterval)
+      : getConfiguredInterval();
+
+  const shops = await runScheduledResort(interval);
+  return json({ interval, shops });
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => runScheduler(request);
+
+export const action = async ({ request }: ActionFunctionArgs) => runScheduler(request);
@@ -0,0 +1,20 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@vercel/remix";
+import { json } from "@vercel/remix";
+import { isAuthorizedCronRequest } from "../lib/cron-auth.server";
+import { refreshStaleSalesStats } from "../services/sales-velocity.server";
+
+// Recomputes the cached units sold / revenue totals that are missing or stale.
+// Called every 10 minutes by Vercel Cron (GET); only windows used by an enabled collection are aggregated,
+// and large shops are worked through over several runs.
+async function runAggregation(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const windows = await refreshStaleSalesStats();
+  return json({ windows });
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => runAggregation(request);
+
+export const action = async ({ request }: ActionFunctionArgs) => runAggregation(request);
@@ -0,0 +1,19 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@vercel/remix";
+import { json } from "@vercel/remix";
+import { isAuthorizedCronRequest } from "../lib/cron-auth.server";
+import { processSortQueue } from "../services/sort-queue.server";
+
+// Drains the SortJob queue. Called every minute by Vercel Cron (GET),
+// or manually with a POST carrying the same Authorization header.
+async function runWorker(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const summary = await processSortQueue();
+  return json(summary);
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => runWorker(request);
+
+export const action = async ({ request }: ActionFunctionArgs) => runWorker(request);
@@ -0,0 +1,42 @@
+import type { ActionFunctionArgs } from "@vercel/remix";
+import { authenticate } from "../shopify.server";
+import db from "../db.server";
+import { toGlobalId } from "../services/collection-resort.server";
+import { enqueueSortJob } from "../services/sort-queue.server";
+import { isAppCollectionUpdate } from "../services/order-history.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, payload, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  if (!payload?.id) {
+    return new Response();
+  }
+
+  const collectionId = payload.admin_graphql_api_id || toGlobalId("Collection", payload.id);
+
+  const setting = await db.collectionSetting.findUnique({
+    where: { shop_collectionId: { shop, collectionId } },
+    select: { enabled: true },
+  });
+
+  if (!setting?.enabled) {
+    return new Response();
+  }
+
+  // Our own reorders fire this webhook too - don't re-sort again for them
+  const updatedAt = typeof payload.updated_at === "string" ? new Date(payload.updated_at) : null;
+  if (updatedAt && await isAppCollectionUpdate(shop, collectionId, updatedAt)) {
+    console.log(`Skipped re-sort for ${collectionId} - the update was our own reorder`);
+    return new Response();
+  }
+
+  // Products that newly match a smart collection's rules are added at the end, whatever their stock -
+  // re-sort so they land in the right tier
+  await enqueueSortJob(shop, collectionId, "collection_update");
+
+  console.log(`Queued re-sort of ${collectionId} after a collection update`);
+
+  return new Response();
+};
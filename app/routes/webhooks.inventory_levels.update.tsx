@@ -0,0 +1,45 @@
+import type { ActionFunctionArgs } from "@vercel/remix";
+import { authenticate } from "../shopify.server";
+import {
+  findProductIdForInventoryItem,
+  findEnabledCollectionsForProduct,
+  toGlobalId,
+} from "../services/collection-resort.server";
+import { enqueueSortJob } from "../services/sort-queue.server";
+import { fetchProductInStock, recordStockObservation } from "../services/stock-state.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, admin, payload, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  // No admin context means the shop has uninstalled the app (or the session is gone),
+  // so there is nothing we can re-sort.
+  if (!admin || !payload?.inventory_item_id) {
+    return new Response();
+  }
+
+  const inventoryItemId = toGlobalId("InventoryItem", payload.inventory_item_id);
+  const productId = await findProductIdForInventoryItem(admin, inventoryItemId);
+
+  if (!productId) {
+    console.log(`No product found for inventory item ${inventoryItemId}`);
+    return new Response();
+  }
+
+  // Remember the stock state so coming back in stock counts as a restock
+  const inStock = await fetchProductInStock(admin, shop, productId);
+  if (inStock !== null) {
+    await recordStockObservation(shop, productId, inStock);
+  }
+
+  // Queue the re-sorts rather than running them here - Shopify expects a response within 5 seconds
+  const collectionIds = await findEnabledCollectionsForProduct(admin, shop, productId);
+  for (const collectionId of collectionIds) {
+    await enqueueSortJob(shop, collectionId, "webhook");
+  }
+
+  console.log(`Queued ${collectionIds.length} collection re-sort(s) for ${productId}`);
+
+  return new Response();
+};
@@ -0,0 +1,51 @@
+import type { ActionFunctionArgs } from "@vercel/remix";
+import { authenticate } from "../shopify.server";
+import {
+  findEnabledCollectionsForProduct,
+  toGlobalId,
+} from "../services/collection-resort.server";
+import { enqueueSortJob } from "../services/sort-queue.server";
+import { fetchProductInStock, isAppProductUpdate, recordStockObservation } from "../services/stock-state.server";
+import { addTagsToIndex } from "../services/tag-index.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, admin, payload, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  // No admin context means the shop has uninstalled the app (or the session is gone),
+  // so there is nothing we can re-sort.
+  if (!admin || !payload?.id) {
+    return new Response();
+  }
+
+  const productId = payload.admin_graphql_api_id || toGlobalId("Product", payload.id);
+
+  // Remember the stock state so coming back in stock counts as a restock
+  const inStock = await fetchProductInStock(admin, shop, productId);
+  if (inStock !== null) {
+    await recordStockObservation(shop, productId, inStock);
+  }
+
+  // Keep tag suggestions current - the payload lists the product's tags comma separated
+  if (typeof payload.tags === "string") {
+    await addTagsToIndex(shop, payload.tags.split(","));
+  }
+
+  // Adding or removing our own out-of-stock tag fires this webhook too - that doesn't change the order, so don't re-sort again
+  const updatedAt = typeof payload.updated_at === "string" ? new Date(payload.updated_at) : null;
+  if (updatedAt && await isAppProductUpdate(shop, productId, updatedAt)) {
+    console.log(`Skipped re-sort for ${productId} - the update was our own out-of-stock tag`);
+    return new Response();
+  }
+
+  // Queue the re-sorts rather than running them here - Shopify expects a response within 5 seconds
+  const collectionIds = await findEnabledCollectionsForProduct(admin, shop, productId);
+  for (const collectionId of collectionIds) {
+    await enqueueSortJob(shop, collectionId, "webhook");
+  }
+
+  console.log(`Queued ${collectionIds.length} collection re-sort(s) for ${productId}`);
+
+  return new Response();
+};
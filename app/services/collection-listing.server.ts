@@ -0,0 +1,359 @@
+// COLLECTION LISTING SERVICE
+// Fetches one page of the shop's collections for the collections page, searched, filtered and sorted by Shopify
+// so shops with hundreds of collections can page through all of them
+// The "enabled" tab and the tag filter narrow the list down to known collection ids, which are paged through
+// by id - a page at a time - instead of being sent to Shopify all at once
+
+import type { AdminApiContext } from '@shopify/shopify-app-remix/server';
+import db from '../db.server';
+import { COLLECTIONS_PAGE_SIZE } from '../utils/collection-listing';
+import type { CollectionListParams, CollectionListSort } from '../utils/collection-listing';
+
+// The tag filter reads the collections of tagged products this many products per request...
+const TAG_FILTER_PAGE_SIZE = 25;
+
+// ...up to this many collections per product...
+const TAG_FILTER_COLLECTIONS_PER_PRODUCT = 25;
+
+// ...and for at most this many pages - beyond that the filtered list is reported as partial
+const TAG_FILTER_MAX_PAGES = 4;
+
+// Products per collection read to offer their option names (e.g. "Size") for variant counting
+const OPTION_SAMPLE_PRODUCTS = 10;
+
+const COLLECTION_SORT_KEYS: Record<CollectionListSort, { sortKey: string; reverse: boolean }> = {
+  'title asc': { sortKey: 'TITLE', reverse: false },
+  'title desc': { sortKey: 'TITLE', reverse: true },
+  'updated desc': { sortKey: 'UPDATED_AT', reverse: true },
+  'updated asc': { sortKey: 'UPDATED_AT', reverse: false },
+};
+
+// GraphQL query for one page of collections - cursors go forwards with first/after and backwards with last/before
+const FETCH_COLLECTION_PAGE_QUERY = `
+  query getCollectionPage($first: Int, $last: Int, $after: String, $before: String, $query: String, $sortKey: CollectionSortKeys!, $reverse: Boolean!, $productsFirst: Int!) {
+    collections(first: $first, last: $last, after: $after, before: $before, query: $query, sortKey: $sortKey, reverse: $reverse) {
+      pageInfo {
+        hasNextPage
+        hasPreviousPage
+        startCursor
+        endCursor
+      }
+      edges {
+        node {
+          id
+          title
+          sortOrder
+          ruleSet {
+            appliedDisjunctively
+          }
+          productsCount {
+            count
+          }
+          products(first: $productsFirst) {
+            edges {
+              node {
+                options {
+                  name
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+// GraphQL query for the collections of products carrying any of the filtered tags
+const FETCH_TAGGED_PRODUCT_COLLECTIONS_QUERY = `
+  query getTaggedProductCollections($first: Int!, $after: String, $query: String!, $collectionsFirst: Int!) {
+    products(first: $first, after: $after, query: $query) {
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      nodes {
+        collections(first: $collectionsFirst) {
+          pageInfo {
+            hasNextPage
+          }
+          nodes {
+            id
+          }
+        }
+      }
+    }
+  }
+`;
+
+export interface CollectionListItem {
+  id: string;
+  title: string;
+  sortOrder: string;
+  isSmart: boolean; // Smart (rule-based) collections have a rule set; custom collections are curated by hand
+  productsCount: { count: number } | null;
+  productOptions: string[];
+}
+
+export interface CollectionPage {
+  collections: CollectionListItem[];
+  pageInfo: {
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+    startCursor: string | null;
+    endCursor: string | null;
+  };
+  isPartial: boolean; // The tag filter gave up before reading every tagged product, so collections may be missing
+}
+
+const EMPTY_PAGE: CollectionPage = {
+  collections: [],
+  pageInfo: { hasNextPage: false, hasPreviousPage: false, startCursor: null, endCursor: null },
+  isPartial: false,
+};
+
+// Reads the next ids of a narrowed-down list - ascending after the cursor, or descending before it
+type CollectionIdSource = (
+  cursor: string | null,
+  direction: 'after' | 'before',
+  take: number
+) => Promise<{ ids: string[]; hasMore: boolean }>;
+
+/**
+ * Escapes a value for Shopify's search syntax
+ */
+function escapeSearchValue(value: string): string {
+  return value.replace(/[\\"():]/g, '\\$&');
+}
+
+const toNumericId = (id: string) => id.split('/').pop();
+
+/**
+ * Builds the `query:` search string - every word of the search text must start a word of the title,
+ * and collections must be among the given ids when those are set
+ */
+export function buildCollectionSearchQuery(query: string, collectionIds: string[] | null): string {
+  const clauses = query
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => `title:${escapeSearchValue(word)}*`);
+
+  if (collectionIds) {
+    clauses.push(`(${collectionIds.map(id => `id:${toNumericId(id)}`).join(' OR ')})`);
+  }
+
+  return clauses.join(' AND ');
+}
+
+/**
+ * Ids of the collections containing products that have any of the given tags
+ * Stops after TAG_FILTER_MAX_PAGES pages of products and says so with isPartial
+ */
+async function fetchTaggedProductCollectionIds(
+  admin: AdminApiContext,
+  tags: string[]
+): Promise<{ collectionIds: string[]; isPartial: boolean }> {
+  const collectionIds = new Set<string>();
+  let isPartial = false;
+  let hasNextPage = true;
+  let cursor: string | null = null;
+
+  for (let page = 0; hasNextPage; page++) {
+    if (page >= TAG_FILTER_MAX_PAGES) {
+      isPartial = true;
+      break;
+    }
+
+    const response = await admin.graphql(FETCH_TAGGED_PRODUCT_COLLECTIONS_QUERY, {
+      variables: {
+        first: TAG_FILTER_PAGE_SIZE,
+        after: cursor,
+        query: tags.map(tag => `tag:"${escapeSearchValue(tag)}"`).join(' OR '),
+        collectionsFirst: TAG_FILTER_COLLECTIONS_PER_PRODUCT,
+      },
+    });
+
+    const data: any = await response.json();
+
+    if (data.errors) {
+      console.error('❌ GraphQL errors fetching tagged products:', data.errors);
+      throw new Error(`GraphQL error: ${data.errors[0]?.message}`);
+    }
+
+    const products = data.data?.products;
+    if (!products) break;
+
+    for (const product of products.nodes) {
+      product.collections.nodes.forEach((collection: { id: string }) => collectionIds.add(collection.id));
+      if (product.collections.pageInfo.hasNextPage) isPartial = true;
+    }
+
+    hasNextPage = products.pageInfo.hasNextPage;
+    cursor = products.pageInfo.endCursor;
+  }
+
+  return { collectionIds: Array.from(collectionIds), isPartial };
+}
+
+/**
+ * Pages through the shop's push down enabled collections in the database
+ */
+function enabledCollectionIdSource(shop: string): CollectionIdSource {
+  return async (cursor, direction, take) => {
+    const rows = await db.collectionSetting.findMany({
+      where: {
+        shop,
+        enabled: true,
+        ...(cursor ? { collectionId: direction === 'after' ? { gt: cursor } : { lt: cursor } } : {}),
+      },
+      orderBy: { collectionId: direction === 'after' ? 'asc' : 'desc' },
+      select: { collectionId: true },
+      take: take + 1,
+    });
+
+    return {
+      ids: rows.slice(0, take).map((row: { collectionId: string }) => row.collectionId),
+      hasMore: rows.length > take,
+    };
+  };
+}
+
+/**
+ * Pages through a list of collection ids held in memory
+ */
+function arrayCollectionIdSource(collectionIds: string[]): CollectionIdSource {
+  const ascending = [...collectionIds].sort();
+  const descending = [...ascending].reverse();
+
+  return async (cursor, direction, take) => {
+    const remaining = direction === 'after'
+      ? ascending.filter(id => cursor === null || id > cursor)
+      : descending.filter(id => cursor === null || id < cursor);
+    return { ids: remaining.slice(0, take), hasMore: remaining.length > take };
+  };
+}
+
+/**
+ * Fetches one page of collections from Shopify - the search string decides which ones
+ */
+async function queryCollectionPage(
+  admin: AdminApiContext,
+  params: CollectionListParams,
+  query: string,
+  cursors: { after: string | null; before: string | null }
+): Promise<{ collections: CollectionListItem[]; pageInfo: CollectionPage['pageInfo'] }> {
+  const { sortKey, reverse } = COLLECTION_SORT_KEYS[params.sort];
+
+  const response = await admin.graphql(FETCH_COLLECTION_PAGE_QUERY, {
+    variables: {
+      ...(cursors.before
+        ? { last: COLLECTIONS_PAGE_SIZE, before: cursors.before }
+        : { first: COLLECTIONS_PAGE_SIZE, after: cursors.after }),
+      query: query || null,
+      sortKey,
+      reverse,
+      productsFirst: OPTION_SAMPLE_PRODUCTS,
+    },
+  });
+
+  const data: any = await response.json();
+
+  if (data.errors) {
+    console.error('❌ GraphQL errors fetching collections:', data.errors);
+    throw new Error(`GraphQL error: ${data.errors[0]?.message}`);
+  }
+
+  const page = data.data?.collections;
+  if (!page) return { collections: [], pageInfo: EMPTY_PAGE.pageInfo };
+
+  const collections = page.edges.map((edge: any): CollectionListItem => {
+    const { products, ruleSet, ...collection } = edge.node;
+    const productOptions = new Set<string>();
+    (products?.edges || []).forEach((productEdge: any) => {
+      (productEdge.node.options || []).forEach((option: any) => {
+        if (option.name !== 'Title') productOptions.add(option.name); // "Title" is Shopify's placeholder for products without options
+      });
+    });
+
+    return { ...collection, isSmart: Boolean(ruleSet), productOptions: Array.from(productOptions) };
+  });
+
+  return { collections, pageInfo: page.pageInfo };
+}
+
+/**
+ * Fetches a page of a narrowed-down list of collections - the cursors are collection ids
+ * Each request asks Shopify about at most a page of ids; ids that the search rules out are skipped
+ * until a page has collections to show. The list pages by id, so the sort applies within each page
+ */
+async function fetchCollectionPageByIds(
+  admin: AdminApiContext,
+  params: CollectionListParams,
+  source: CollectionIdSource
+): Promise<Omit<CollectionPage, 'isPartial'>> {
+  const direction = params.before ? 'before' : 'after';
+  let cursor = params.before || params.after;
+  let hasMore = true;
+  const scannedIds: string[] = [];
+  const collections: CollectionListItem[] = [];
+
+  while (hasMore && collections.length === 0) {
+    const next = await source(cursor, direction, COLLECTIONS_PAGE_SIZE);
+    hasMore = next.hasMore;
+    if (next.ids.length === 0) break;
+
+    scannedIds.push(...next.ids);
+    cursor = next.ids[next.ids.length - 1];
+
+    const query = buildCollectionSearchQuery(params.query, next.ids);
+    const page = await queryCollectionPage(admin, params, query, { after: null, before: null });
+    collections.push(...page.collections);
+  }
+
+  if (scannedIds.length === 0) return { collections: [], pageInfo: EMPTY_PAGE.pageInfo };
+
+  const sortedIds = [...scannedIds].sort();
+  return {
+    collections,
+    pageInfo: {
+      hasNextPage: direction === 'after' ? hasMore : true,
+      hasPreviousPage: direction === 'after' ? Boolean(params.after) : hasMore,
+      startCursor: sortedIds[0],
+      endCursor: sortedIds[sortedIds.length - 1],
+    },
+  };
+}
+
+/**
+ * Fetches the page of collections the list params point at
+ * The "enabled" tab pages through the shop's enabled collections in the database
+ */
+export async function fetchCollectionPage(
+  admin: AdminApiContext,
+  shop: string,
+  params: CollectionListParams
+): Promise<CollectionPage> {
+  if (params.tags.length === 0 && params.tab === 'all') {
+    const page = await queryCollectionPage(admin, params, buildCollectionSearchQuery(params.query, null), params);
+    return { ...page, isPartial: false };
+  }
+
+  if (params.tags.length === 0) {
+    const page = await fetchCollectionPageByIds(admin, params, enabledCollectionIdSource(shop));
+    return { ...page, isPartial: false };
+  }
+
+  const tagged = await fetchTaggedProductCollectionIds(admin, params.tags);
+  let collectionIds = tagged.collectionIds;
+  if (params.tab === 'enabled' && collectionIds.length > 0) {
+    const enabledRows = await db.collectionSetting.findMany({
+      where: { shop, enabled: true, collectionId: { in: collectionIds } },
+      select: { collectionId: true },
+    });
+    collectionIds = enabledRows.map((row: { collectionId: string }) => row.collectionId);
+  }
+  if (collectionIds.length === 0) return { ...EMPTY_PAGE, isPartial: tagged.isPartial };
+
+  const page = await fetchCollectionPageByIds(admin, params, arrayCollectionIdSource(collectionIds));
+  return { ...page, isPartial: tagged.isPartial };
+}
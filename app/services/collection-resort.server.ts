@@ -0,0 +1,405 @@
+// COLLECTION RE-SORT SERVICE
+// Runs the fetch → sort → reorder pipeline for collections that already have saved settings
+// Used by the sort job worker and anything else that needs to re-sort without the collections page
+
+import type { AdminApiContext } from '@shopify/shopify-app-remix/server';
+import type { Prisma } from '@prisma/client';
+import db from '../db.server';
+import {
+  fetchCollectionProducts,
+  getSortedProductIds,
+  getTierCounts,
+  sortProductsWithInventory,
+  reorderCollectionProducts,
+} from './collection-sorting.server';
+import type { ProductForSorting, ReorderProgress, SortResult, SortTypeValue } from './collection-sorting.server';
+import { getShopSettings, getStatusPolicies, getStockOptions } from './shop-settings.server';
+import { resolveSalesContextLocations, resolveSalesContextPublication } from './sales-contexts.server';
+import { recordAppReorder, recordOrderVersion } from './order-history.server';
+import { getPinnedProducts } from './pinned-products.server';
+import type { OrderTrigger } from './order-history.server';
+import type { TierCounts } from '../utils/sort-tiers';
+import { getRuleMetafieldKeys, parseRuleSet } from '../utils/exclusion-rules';
+import type { RuleKind } from '../utils/exclusion-rules';
+import { getSortMetafieldKeys, getSortVelocityWindows, parseSecondarySort } from '../utils/secondary-sort';
+import { DEFAULT_SALES_WINDOW_DAYS, getSalesSortMetric, parseSalesWindowDays } from '../utils/sales-velocity';
+import { getSalesVelocity } from './sales-velocity.server';
+import type { SalesByProduct } from './sales-velocity.server';
+import { getRecentRestocks, recordStockObservations } from './stock-state.server';
+import { applyOutOfStockAction } from './out-of-stock-actions.server';
+import type { OutOfStockActionResult } from './out-of-stock-actions.server';
+import { parseOutOfStockAction } from '../utils/out-of-stock-actions';
+import { toJsonObject } from '../utils/json-column';
+
+export interface ResortStats {
+  tierCounts: TierCounts;
+  totalProducts: number;
+}
+
+export interface ResortResult {
+  collectionId: string;
+  success: boolean;
+  skipped?: boolean; // Collection is no longer enabled - nothing to do
+  stats?: ResortStats;
+  movesCount?: number; // 0 means the computed order matched the collection already
+  progress?: ReorderProgress;
+  outOfStockAction?: OutOfStockActionResult; // Follow-up action for products out of stock too long
+  error?: string;
+}
+
+// GraphQL query to find which collections a product belongs to
+const PRODUCT_COLLECTIONS_QUERY = `
+  query getProductCollections($id: ID!, $first: Int!, $after: String) {
+    product(id: $id) {
+      id
+      collections(first: $first, after: $after) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        edges {
+          node {
+            id
+          }
+        }
+      }
+    }
+  }
+`;
+
+// GraphQL query to resolve an inventory item back to its product
+const INVENTORY_ITEM_PRODUCT_QUERY = `
+  query getInventoryItemProduct($id: ID!) {
+    inventoryItem(id: $id) {
+      id
+      variant {
+        id
+        product {
+          id
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Converts a numeric REST id (as sent in webhook payloads) into a GraphQL global id
+ */
+export function toGlobalId(type: string, id: string | number): string {
+  const value = String(id);
+  return value.startsWith('gid://') ? value : `gid://shopify/${type}/${value}`;
+}
+
+/**
+ * Resolves the product that owns an inventory item
+ * Returns null if the item no longer exists or has no variant
+ */
+export async function findProductIdForInventoryItem(
+  admin: AdminApiContext,
+  inventoryItemId: string
+): Promise<string | null> {
+  const response = await admin.graphql(INVENTORY_ITEM_PRODUCT_QUERY, {
+    variables: { id: inventoryItemId },
+  });
+
+  const data: any = await response.json();
+
+  if (data.errors) {
+    console.error('❌ GraphQL errors resolving inventory item:', data.errors);
+    throw new Error(`GraphQL error: ${data.errors[0]?.message}`);
+  }
+
+  return data.data?.inventoryItem?.variant?.product?.id || null;
+}
+
+/**
+ * Returns the ids of every enabled collection (for this shop) that contains the product
+ */
+export async function findEnabledCollectionsForProduct(
+  admin: AdminApiContext,
+  shop: string,
+  productId: string
+): Promise<string[]> {
+  const enabledSettings = await db.collectionSetting.findMany({
+    where: { shop, enabled: true },
+    select: { collectionId: true },
+  });
+
+  if (enabledSettings.length === 0) return [];
+
+  const enabledIds = new Set<string>(enabledSettings.map((setting: { collectionId: string }) => setting.collectionId));
+  const matches: string[] = [];
+  let hasNextPage = true;
+  let cursor: string | null = null;
+
+  while (hasNextPage) {
+    const response = await admin.graphql(PRODUCT_COLLECTIONS_QUERY, {
+      variables: { id: productId, first: 250, after: cursor },
+    });
+
+    const data: any = await response.json();
+
+    if (data.errors) {
+      console.error('❌ GraphQL errors fetching product collections:', data.errors);
+      throw new Error(`GraphQL error: ${data.errors[0]?.message}`);
+    }
+
+    const collections = data.data?.product?.collections;
+    if (!collections) break;
+
+    for (const edge of collections.edges) {
+      if (enabledIds.has(edge.node.id)) {
+        matches.push(edge.node.id);
+      }
+    }
+
+    hasNextPage = collections.pageInfo.hasNextPage;
+    cursor = collections.pageInfo.endCursor;
+  }
+
+  return matches;
+}
+
+// The CollectionSetting fields that shape a sort
+export interface CollectionSortSetting {
+  sortType: string;
+  lowStockThreshold: number;
+  lowStockBoost: boolean;
+  variantRatioThreshold: number;
+  variantRatioOption: string | null;
+  stockLocationIds: string[];
+  salesContextId: string | null;
+  exclusionRules: unknown; // Stored ExclusionRuleSet JSON
+  pushDownRules: unknown;
+  boostRules: unknown;
+  secondarySort: unknown; // Stored SecondarySortConfig JSON
+  salesWindowDays: number; // Window of the units sold / revenue sort types
+  newArrivalGraceDays: number; // 0 = off
+  restockBoostHours: number; // 0 = off
+  outOfStockAction: unknown; // Stored OutOfStockActionConfig JSON
+}
+
+// Used to preview collections that have never been saved
+export const DEFAULT_COLLECTION_SORT_SETTING: CollectionSortSetting = {
+  sortType: 'bestsellers asc',
+  lowStockThreshold: 0,
+  lowStockBoost: false,
+  variantRatioThreshold: 0,
+  variantRatioOption: null,
+  stockLocationIds: [],
+  salesContextId: null,
+  exclusionRules: null,
+  pushDownRules: null,
+  boostRules: null,
+  secondarySort: null,
+  salesWindowDays: DEFAULT_SALES_WINDOW_DAYS,
+  newArrivalGraceDays: 0,
+  restockBoostHours: 0,
+  outOfStockAction: null,
+};
+
+export interface ComputedCollectionOrder {
+  products: ProductForSorting[];
+  sortResult: SortResult;
+  sortedProductIds: string[];
+}
+
+/**
+ * Runs the fetch → sort part of the pipeline without touching the collection
+ * Shared by the re-sort job and the dry-run preview so both compute the same order
+ */
+export async function computeCollectionOrder(
+  admin: AdminApiContext,
+  shop: string,
+  collectionId: string,
+  setting: CollectionSortSetting
+): Promise<ComputedCollectionOrder> {
+  const exclusionTagRows = await db.exclusionTag.findMany({
+    where: { shop, collectionId },
+  });
+  const tagsOfKind = (kind: RuleKind) => exclusionTagRows
+    .filter((row: { kind: string }) => (row.kind || 'exclude') === kind)
+    .map((row: { tag: string }) => row.tag.toLowerCase());
+  const exclusionTags = tagsOfKind('exclude');
+  const shopSettings = await getShopSettings(shop);
+  const pins = await getPinnedProducts(shop, collectionId);
+  const sortType = setting.sortType as SortTypeValue;
+
+  // Products not available in the collection's market/channel are pushed down like out-of-stock ones,
+  // and a market's stock is only counted at the locations that ship to it
+  const publicationId = setting.salesContextId
+    ? await resolveSalesContextPublication(admin, setting.salesContextId)
+    : null;
+  const marketLocationIds = setting.salesContextId
+    ? await resolveSalesContextLocations(admin, setting.salesContextId)
+    : [];
+
+  const shopStockOptions = getStockOptions(shopSettings);
+  const stockOptions = {
+    ...shopStockOptions,
+    // A collection's own locations replace the market's, which replace the shop-wide selection
+    locationIds: setting.stockLocationIds.length > 0
+      ? setting.stockLocationIds
+      : marketLocationIds.length > 0 ? marketLocationIds : shopStockOptions.locationIds,
+    variantRatioThreshold: setting.variantRatioThreshold,
+    variantRatioOption: setting.variantRatioOption,
+  };
+
+  const collectionExclusionRules = parseRuleSet(setting.exclusionRules);
+  const pushDownRules = parseRuleSet(setting.pushDownRules);
+  const boostRules = parseRuleSet(setting.boostRules);
+  const secondarySort = parseSecondarySort(setting.secondarySort);
+  const metafieldKeys = Array.from(new Set([
+    ...getRuleMetafieldKeys([collectionExclusionRules, shopSettings.globalExclusionRules, pushDownRules, boostRules]),
+    ...getSortMetafieldKeys(secondarySort),
+  ]));
+
+  // Order data is only needed for the sales sort types and for secondary sort steps that order by units sold
+  const salesMetric = getSalesSortMetric(setting.sortType);
+  const salesWindowDays = parseSalesWindowDays(setting.salesWindowDays);
+  const velocityWindows = new Set(getSortVelocityWindows(secondarySort));
+  if (salesMetric) velocityWindows.add(salesWindowDays);
+
+  const salesVelocity: Record<number, SalesByProduct> = {};
+  for (const days of velocityWindows) {
+    salesVelocity[days] = await getSalesVelocity(shop, days);
+  }
+
+  // Restocks are tracked by the inventory and product webhooks
+  const restockTimes = setting.restockBoostHours > 0
+    ? await getRecentRestocks(shop, setting.restockBoostHours)
+    : {};
+
+  const collectionData = await fetchCollectionProducts(admin, collectionId, sortType, stockOptions, publicationId, metafieldKeys);
+  const sortResult = sortProductsWithInventory(
+    collectionData.products,
+    exclusionTags,
+    shopSettings.globalExclusionTags,
+    {
+      statusPolicies: getStatusPolicies(shopSettings),
+      lowStockThreshold: setting.lowStockThreshold,
+      lowStockBoost: setting.lowStockBoost,
+      pins,
+      collectionExclusionRules,
+      globalExclusionRules: shopSettings.globalExclusionRules,
+      pushDownTags: tagsOfKind('push_down'),
+      pushDownRules,
+      boostTags: tagsOfKind('boost'),
+      boostRules,
+      inStockSort: secondarySort.inStock,
+      outOfStockSort: secondarySort.outOfStock,
+      salesVelocity,
+      salesSort: salesMetric ? { metric: salesMetric, days: salesWindowDays } : undefined,
+      newArrivalGraceDays: setting.newArrivalGraceDays,
+      restockBoostHours: setting.restockBoostHours,
+      restockTimes,
+    }
+  );
+
+  return {
+    products: collectionData.products,
+    sortResult,
+    sortedProductIds: getSortedProductIds(sortResult),
+  };
+}
+
+/**
+ * The settings recorded with each order version
+ */
+function getSortSettingSnapshot(setting: CollectionSortSetting): Prisma.InputJsonObject {
+  return toJsonObject({
+    sortType: setting.sortType,
+    lowStockThreshold: setting.lowStockThreshold,
+    lowStockBoost: setting.lowStockBoost,
+    variantRatioThreshold: setting.variantRatioThreshold,
+    variantRatioOption: setting.variantRatioOption,
+    stockLocationIds: setting.stockLocationIds,
+    salesContextId: setting.salesContextId,
+    exclusionRules: setting.exclusionRules,
+    pushDownRules: setting.pushDownRules,
+    boostRules: setting.boostRules,
+    secondarySort: setting.secondarySort,
+    salesWindowDays: setting.salesWindowDays,
+    newArrivalGraceDays: setting.newArrivalGraceDays,
+    restockBoostHours: setting.restockBoostHours,
+    outOfStockAction: setting.outOfStockAction,
+  });
+}
+
+/**
+ * Re-sorts a single collection using its saved CollectionSetting and ExclusionTag rows
+ * plus the shop's global settings
+ * Orders that actually changed the collection are recorded in its order history
+ */
+export async function resortCollection(
+  admin: AdminApiContext,
+  shop: string,
+  collectionId: string,
+  trigger: OrderTrigger = 'manual'
+): Promise<ResortResult> {
+  try {
+    const setting = await db.collectionSetting.findUnique({
+      where: { shop_collectionId: { shop, collectionId } },
+    });
+
+    if (!setting || !setting.enabled) {
+      return { collectionId, success: false, skipped: true, error: 'Push down is not enabled for this collection' };
+    }
+
+    const { products, sortResult, sortedProductIds } = await computeCollectionOrder(admin, shop, collectionId, setting);
+
+    // Collections with their own locations or variant rules judge stock differently from the shop,
+    // so only the rest feed the shared out-of-stock clock (webhooks use the shop's classification too)
+    if (setting.stockLocationIds.length === 0 && setting.variantRatioThreshold === 0) {
+      await recordStockObservations(shop, products
+        .filter(product => product.isAvailableInContext)
+        .map(product => ({ productId: product.id, inStock: product.isInStock })));
+    }
+
+    const sortType = setting.sortType as SortTypeValue;
+    // Only move products whose position changed - most re-sorts touch a handful of products
+    const reorderResult = await reorderCollectionProducts(admin, collectionId, sortedProductIds, sortType, 'incremental');
+
+    if (!reorderResult.success) {
+      return { collectionId, success: false, progress: reorderResult.progress, error: reorderResult.error };
+    }
+
+    const tierCounts = getTierCounts(sortResult);
+    if (reorderResult.movesCount) {
+      await recordOrderVersion({
+        shop,
+        collectionId,
+        trigger,
+        productIds: sortedProductIds,
+        movesCount: reorderResult.movesCount,
+        settings: getSortSettingSnapshot(setting),
+        tierCounts,
+      });
+    }
+
+    const outOfStockAction = await applyOutOfStockAction(
+      admin, shop, collectionId, sortResult, parseOutOfStockAction(setting.outOfStockAction)
+    );
+    // Switching to manual sort, the moves and the out-of-stock action all fire collections/update
+    await recordAppReorder(shop, collectionId);
+
+    return {
+      collectionId,
+      success: true,
+      stats: {
+        tierCounts,
+        totalProducts: sortedProductIds.length,
+      },
+      movesCount: reorderResult.movesCount,
+      progress: reorderResult.progress,
+      outOfStockAction,
+    };
+  } catch (error) {
+    console.error(`❌ Error re-sorting collection ${collectionId}:`, error);
+    return {
+      collectionId,
+      success: false,
+      error: `Failed to re-sort: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
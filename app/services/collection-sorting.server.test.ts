@@ -0,0 +1,159 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  getSortedProductIds,
+  sortProductsWithInventory,
+  type ProductForSorting,
+  type SortOptions,
+} from './collection-sorting.server';
+import type { PlacementReason, TierName } from '../utils/sort-tiers';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Everything that can place a product somewhere
+interface Traits {
+  pinned: boolean;
+  draft: boolean;
+  pushedDown: boolean;
+  excluded: boolean;
+  boosted: boolean;
+  restocked: boolean;
+  lowStock: boolean;
+  inStock: boolean;
+  newArrival: boolean;
+}
+
+const ALL_TRAITS: Traits = {
+  pinned: true,
+  draft: true,
+  pushedDown: true,
+  excluded: true,
+  boosted: true,
+  restocked: true,
+  lowStock: true,
+  inStock: true,
+  newArrival: true,
+};
+
+const OPTIONS: SortOptions = {
+  pushDownTags: ['discontinued'],
+  boostTags: ['featured'],
+  lowStockThreshold: 5,
+  restockBoostHours: 24,
+  newArrivalGraceDays: 30,
+};
+
+const EXCLUSION_TAGS = ['preorder'];
+
+/**
+ * A product with the given traits - the id is the name of the trait test that uses it
+ */
+function buildProduct(id: string, traits: Traits): ProductForSorting {
+  const quantity = !traits.inStock ? 0 : traits.lowStock ? 2 : 50;
+  const tags = [
+    traits.pushedDown ? 'discontinued' : '',
+    traits.excluded ? 'preorder' : '',
+    traits.boosted ? 'featured' : '',
+  ].filter(Boolean);
+
+  return {
+    id,
+    title: id,
+    handle: id,
+    tags,
+    vendor: 'Acme',
+    productType: 'Shirt',
+    createdAt: new Date(Date.now() - (traits.newArrival ? 2 : 200) * DAY_MS).toISOString(),
+    minPrice: 10,
+    metafields: {},
+    status: traits.draft ? 'DRAFT' : 'ACTIVE',
+    isPublishedOnlineStore: true,
+    isAvailableInContext: true,
+    variants: [{
+      id: `${id}-variant`,
+      inventoryQuantity: quantity,
+      availableForSale: traits.inStock,
+      inventoryPolicy: 'DENY',
+      inventoryTracked: true,
+      selectedOptions: [],
+      price: 10,
+      unitCost: null,
+      inventoryItemId: null,
+    }],
+    isInStock: traits.inStock,
+  };
+}
+
+/**
+ * Sorts the products with the test options, pinning and restocking those whose traits ask for it
+ */
+function sort(products: { product: ProductForSorting; traits: Traits }[]) {
+  return sortProductsWithInventory(products.map(({ product }) => product), EXCLUSION_TAGS, [], {
+    ...OPTIONS,
+    pins: products.filter(({ traits }) => traits.pinned).map(({ product }) => ({ productId: product.id, position: 1 })),
+    restockTimes: Object.fromEntries(products
+      .filter(({ traits }) => traits.restocked)
+      .map(({ product }) => [product.id, new Date()])),
+  });
+}
+
+beforeEach(() => {
+  // The sorting service logs every product it classifies
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('sortProductsWithInventory tier precedence', () => {
+  // Each row drops the trait that won in the row above, so the next one down the precedence wins
+  const cascade: { drop: keyof Traits | null; reason: PlacementReason; tier: TierName }[] = [
+    { drop: null, reason: 'pinned', tier: 'pinned' },
+    { drop: 'pinned', reason: 'status_kept', tier: 'in_stock' },
+    { drop: 'draft', reason: 'pushed_down_by_tag', tier: 'bottom' },
+    { drop: 'pushedDown', reason: 'excluded_by_tag', tier: 'in_stock' },
+    { drop: 'excluded', reason: 'boosted_by_tag', tier: 'boosted' },
+    { drop: 'boosted', reason: 'recently_restocked', tier: 'boosted' },
+    { drop: 'restocked', reason: 'low_stock', tier: 'low_stock' },
+    { drop: 'lowStock', reason: 'in_stock', tier: 'in_stock' },
+    { drop: 'inStock', reason: 'new_arrival', tier: 'in_stock' },
+    { drop: 'newArrival', reason: 'out_of_stock', tier: 'out_of_stock' },
+  ];
+
+  let traits = { ...ALL_TRAITS };
+  const rows = cascade.map(({ drop, reason, tier }) => {
+    if (drop) traits = { ...traits, [drop]: false };
+    return { reason, tier, traits };
+  });
+
+  it.each(rows)('places a product as $reason over everything below it', ({ reason, tier, traits }) => {
+    const product = buildProduct(reason, traits);
+    const result = sort([{ product, traits }]);
+
+    expect(result.placements[product.id].reason).toBe(reason);
+    expect(result.tiers.find(({ products }) => products.includes(product))?.name).toBe(tier);
+  });
+
+  it('orders the tiers pinned slot first, then boosted, in stock, low stock, out of stock and bottom', () => {
+    const products = rows.map(({ reason, traits }) => ({ product: buildProduct(reason, traits), traits }));
+
+    expect(getSortedProductIds(sort(products))).toEqual([
+      'pinned',
+      'boosted_by_tag',
+      'recently_restocked',
+      'status_kept',
+      'excluded_by_tag',
+      'in_stock',
+      'new_arrival',
+      'low_stock',
+      'out_of_stock',
+      'pushed_down_by_tag',
+    ]);
+  });
+
+  it('puts low stock above in stock when low-stock boost is on', () => {
+    const lowStock = { ...ALL_TRAITS, pinned: false, draft: false, pushedDown: false, excluded: false, boosted: false, restocked: false };
+    const inStock = { ...lowStock, lowStock: false };
+    const products = [buildProduct('in_stock', inStock), buildProduct('low_stock', lowStock)];
+
+    const result = sortProductsWithInventory(products, EXCLUSION_TAGS, [], { ...OPTIONS, lowStockBoost: true });
+
+    expect(getSortedProductIds(result)).toEqual(['low_stock', 'in_stock']);
+  });
+});
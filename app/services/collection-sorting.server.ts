@@ -2,19 +2,49 @@
 // Handles fetching products from Shopify collections and preparing data for sorting
 
 import type { AdminApiContext } from '@shopify/shopify-app-remix/server';
+import {
+  buildFullMoves,
+  chunkMoves,
+  computeMinimalMoves,
+  MAX_MOVES_PER_REORDER,
+} from './reorder-moves.server';
+import type { ReorderMove } from './reorder-moves.server';
+import { TIER_NAMES } from '../utils/sort-tiers';
+import type { Placement, PlacementReason, TierCounts, TierName } from '../utils/sort-tiers';
+import { evaluateRuleSet } from '../utils/exclusion-rules';
+import type { ExclusionRuleSet } from '../utils/exclusion-rules';
+import type { SecondarySortStep } from '../utils/secondary-sort';
+import type { SalesByProduct } from './sales-velocity.server';
+import type { SalesMetric } from '../utils/sales-velocity';
 
 // TypeScript interfaces for our data structures
 export interface ProductVariant {
   id: string;
   inventoryQuantity: number;
   availableForSale: boolean;
+  inventoryPolicy: 'DENY' | 'CONTINUE'; // CONTINUE = "continue selling when out of stock"
+  inventoryTracked: boolean;
+  selectedOptions: { name: string; value: string }[]; // e.g. [{ name: 'Size', value: 'M' }]
+  price: number;
+  unitCost: number | null; // Cost per item from the inventory item, null when not set
+  inventoryItemId: string | null; // Looks up per-location stock when the shop limits stock to some locations
 }
 
+export type ProductStatus = 'ACTIVE' | 'DRAFT' | 'ARCHIVED';
+
 export interface ProductForSorting {
   id: string;
   title: string;
   handle: string;
   tags: string[];
+  vendor: string;
+  productType: string;
+  createdAt: string;
+  minPrice: number; // Lowest variant price, used by price exclusion rules
+  metafields: Record<string, string>; // Only the "namespace.key" metafields exclusion rules ask for
+  status: ProductStatus;
+  isPublishedOnlineStore: boolean;
+  isAvailableInContext: boolean; // Published to the collection's market/channel (always true without one)
   variants: ProductVariant[];
   isInStock: boolean;
 }
@@ -26,9 +56,33 @@ export interface CollectionProducts {
   totalCount: number;
 }
 
+// Variant fields needed to classify stock - shared by the product and variant queries
+// Per-location inventory levels are read separately (FETCH_LOCATION_LEVELS_QUERY) - nested in here they
+// would multiply the cost of every products × variants page far past Shopify's 1,000-point query limit
+const SORTING_VARIANT_FIELDS = `
+  fragment SortingVariantFields on ProductVariant {
+    id
+    inventoryQuantity
+    availableForSale
+    inventoryPolicy
+    price
+    inventoryItem {
+      id
+      tracked
+      unitCost {
+        amount
+      }
+    }
+    selectedOptions {
+      name
+      value
+    }
+  }
+`;
+
 // GraphQL query to fetch collection products with inventory data
 const FETCH_COLLECTION_PRODUCTS_QUERY = `
-  query getCollectionProducts($collectionId: ID!, $first: Int!, $after: String, $sortKey: ProductCollectionSortKeys!, $reverse: Boolean) {
+  query getCollectionProducts($collectionId: ID!, $first: Int!, $after: String, $sortKey: ProductCollectionSortKeys!, $reverse: Boolean, $includeMetafields: Boolean!, $metafieldKeys: [String!]) {
     collection(id: $collectionId) {
       id
       title
@@ -43,12 +97,31 @@ const FETCH_COLLECTION_PRODUCTS_QUERY = `
             title
             handle
             tags
+            vendor
+            productType
+            createdAt
+            status
+            onlineStoreUrl
+            priceRangeV2 {
+              minVariantPrice {
+                amount
+              }
+            }
+            metafields(first: 25, keys: $metafieldKeys) @include(if: $includeMetafields) {
+              nodes {
+                namespace
+                key
+                value
+              }
+            }
             variants(first: 100) {
+              pageInfo {
+                hasNextPage
+                endCursor
+              }
               edges {
                 node {
-                  id
-                  inventoryQuantity
-                  availableForSale
+                  ...SortingVariantFields
                 }
               }
             }
@@ -57,8 +130,190 @@ const FETCH_COLLECTION_PRODUCTS_QUERY = `
       }
     }
   }
+  ${SORTING_VARIANT_FIELDS}
+`;
+
+// GraphQL query for the variants beyond the first page of a product with many variants
+const FETCH_PRODUCT_VARIANTS_QUERY = `
+  query getProductVariants($productId: ID!, $first: Int!, $after: String) {
+    product(id: $productId) {
+      variants(first: $first, after: $after) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        edges {
+          node {
+            ...SortingVariantFields
+          }
+        }
+      }
+    }
+  }
+  ${SORTING_VARIANT_FIELDS}
 `;
 
+// Inventory items per location levels request - each item costs about 3 points (item, level, quantities),
+// so a batch of 100 requests about 300 points, well within Shopify's 1,000-point single query limit
+const LOCATION_LEVELS_BATCH_SIZE = 100;
+
+// GraphQL query for the available quantity of a batch of inventory items at one location
+const FETCH_LOCATION_LEVELS_QUERY = `
+  query getLocationInventoryLevels($ids: [ID!]!, $locationId: ID!) {
+    nodes(ids: $ids) {
+      ... on InventoryItem {
+        id
+        inventoryLevel(locationId: $locationId) {
+          quantities(names: ["available"]) {
+            quantity
+          }
+        }
+      }
+    }
+  }
+`;
+
+// Lightweight query for product ids only - used to read the collection's current order
+const FETCH_COLLECTION_PRODUCT_IDS_QUERY = `
+  query getCollectionProductIds($collectionId: ID!, $first: Int!, $after: String, $sortKey: ProductCollectionSortKeys!, $reverse: Boolean) {
+    collection(id: $collectionId) {
+      products(first: $first, after: $after, sortKey: $sortKey, reverse: $reverse) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        edges {
+          node {
+            id
+          }
+        }
+      }
+    }
+  }
+`;
+
+// Lightweight query for whether each product is published to one publication
+const FETCH_COLLECTION_PUBLICATION_QUERY = `
+  query getCollectionPublication($collectionId: ID!, $publicationId: ID!, $first: Int!, $after: String) {
+    collection(id: $collectionId) {
+      products(first: $first, after: $after) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        edges {
+          node {
+            id
+            publishedOnPublication(publicationId: $publicationId)
+          }
+        }
+      }
+    }
+  }
+`;
+
+// GraphQL query for a collection's title and how Shopify currently sorts it
+const FETCH_COLLECTION_SORT_ORDER_QUERY = `
+  query getCollectionSortOrder($collectionId: ID!) {
+    collection(id: $collectionId) {
+      id
+      title
+      sortOrder
+      ruleSet {
+        appliedDisjunctively
+      }
+    }
+  }
+`;
+
+// How a variant's stock is judged:
+// - available_for_sale: Shopify's availableForSale flag (oversell-policy variants are always available)
+// - quantity_positive: inventory quantity above zero
+// - quantity_threshold: inventory quantity above the configured threshold
+// - ignore_oversell_policy: availableForSale, but "continue selling" variants also need quantity above zero
+export const STOCK_STRATEGIES = [
+  'available_for_sale',
+  'quantity_positive',
+  'quantity_threshold',
+  'ignore_oversell_policy',
+] as const;
+
+export type StockStrategy = typeof STOCK_STRATEGIES[number];
+
+export interface StockClassificationOptions {
+  strategy: StockStrategy;
+  threshold: number; // Only used by quantity_threshold
+  excludeContinueSelling: boolean; // Products with a "continue selling" variant always keep their position
+  variantRatioThreshold?: number; // Size availability mode: % of variants that must be in stock (0 = any variant)
+  variantRatioOption?: string | null; // Count values of this option (e.g. Size) instead of individual variants
+  locationIds?: string[]; // Only count inventory at these locations (empty = every location)
+}
+
+// Matches the original behaviour: in stock if any variant is available for sale
+export const DEFAULT_STOCK_OPTIONS: StockClassificationOptions = {
+  strategy: 'available_for_sale',
+  threshold: 0,
+  excludeContinueSelling: false,
+};
+
+// What happens to draft, archived and unpublished products during a sort:
+// - keep: stays in its original position, like a product with an exclusion tag
+// - bottom: pushed to the very end, below out-of-stock products
+// - ignore: no special treatment - sorted by stock like any active product
+export const STATUS_POLICIES = ['keep', 'bottom', 'ignore'] as const;
+
+export type StatusPolicy = typeof STATUS_POLICIES[number];
+
+export interface StatusPolicies {
+  draft: StatusPolicy;
+  archived: StatusPolicy;
+  unpublished: StatusPolicy; // Active, but not published to the Online Store
+}
+
+export const DEFAULT_STATUS_POLICIES: StatusPolicies = {
+  draft: 'keep',
+  archived: 'bottom',
+  unpublished: 'ignore',
+};
+
+// Optional behaviour for sortProductsWithInventory
+export interface SortOptions {
+  statusPolicies?: StatusPolicies;
+  lowStockThreshold?: number; // In-stock products with 1..threshold units form the low_stock tier (0 = off)
+  lowStockBoost?: boolean; // Put the low_stock tier above in_stock to create urgency
+  pins?: ProductPin[]; // Products the merchant fixed to a slot - push down only applies to the rest
+  collectionExclusionRules?: ExclusionRuleSet; // Matching products keep their position, like exclusion tags
+  globalExclusionRules?: ExclusionRuleSet;
+  pushDownTags?: string[]; // Products with these tags always go to the bottom tier, even in stock
+  pushDownRules?: ExclusionRuleSet;
+  boostTags?: string[]; // In-stock products with these tags are pulled to the top
+  boostRules?: ExclusionRuleSet;
+  inStockSort?: SecondarySortStep[]; // Order inside the boosted, in-stock and low-stock tiers
+  outOfStockSort?: SecondarySortStep[]; // Order inside the out-of-stock tier
+  salesVelocity?: Record<number, SalesByProduct>; // Sales per product, keyed by window in days
+  salesSort?: { metric: SalesMetric; days: number }; // Rank by our own sales data before tiering (units sold / revenue sort types)
+  newArrivalGraceDays?: number; // Out-of-stock products created within this many days stay in place (0 = off)
+  restockBoostHours?: number; // In-stock products restocked within this many hours go to the boosted tier (0 = off)
+  restockTimes?: Record<string, Date>; // When each product last came back in stock, by product id
+}
+
+export interface ProductPin {
+  productId: string;
+  position: number; // 1-based slot in the collection
+}
+
+// One named bucket of the sorted collection
+export interface SortTier {
+  name: TierName;
+  products: ProductForSorting[];
+}
+
+export interface SortResult {
+  tiers: SortTier[]; // In collection order - top tier first
+  placements: Record<string, Placement>; // Why each product (by id) landed in its tier
+  pinnedPositions: Record<string, number>; // Slot of each product in the pinned tier
+}
+
 // Sort type mapping: UI values to Shopify GraphQL sort keys
 // Valid ProductCollectionSortKeys from Shopify Admin GraphQL API:
 // BEST_SELLING, COLLECTION_DEFAULT, CREATED, ID, MANUAL, PRICE, RELEVANCE, TITLE
@@ -71,6 +326,9 @@ export const SORT_TYPE_MAPPING = {
   'date_desc desc': { sortKey: 'CREATED', reverse: true },
   'date_asc asc': { sortKey: 'CREATED', reverse: false },
   'manual asc': { sortKey: 'MANUAL', reverse: false },
+  // Sales sort types are ranked by our cached order data; Shopify's best-selling order only breaks ties
+  'units_sold desc': { sortKey: 'BEST_SELLING', reverse: false },
+  'revenue desc': { sortKey: 'BEST_SELLING', reverse: false },
 } as const;
 
 // Map our sort types to Shopify collection sort orders
@@ -87,21 +345,265 @@ export const COLLECTION_SORT_ORDER_MAPPING = {
 
 export type SortTypeValue = keyof typeof SORT_TYPE_MAPPING;
 
+/**
+ * Decides whether a single variant counts as in stock under the given strategy
+ * Variants that don't track inventory never run out, so they always count as in stock
+ */
+export function isVariantInStock(
+  variant: ProductVariant,
+  options: StockClassificationOptions
+): boolean {
+  switch (options.strategy) {
+    case 'quantity_positive':
+      return !variant.inventoryTracked || variant.inventoryQuantity > 0;
+    case 'quantity_threshold':
+      return !variant.inventoryTracked || variant.inventoryQuantity > options.threshold;
+    case 'ignore_oversell_policy':
+      if (variant.inventoryPolicy === 'CONTINUE' && variant.inventoryTracked) {
+        return variant.inventoryQuantity > 0;
+      }
+      return variant.availableForSale;
+    case 'available_for_sale':
+    default:
+      return variant.availableForSale;
+  }
+}
+
+/**
+ * Share (0..1) of a product's variants that are in stock
+ * With an option name, each value of that option counts once - a size is available
+ * if any variant in that size is in stock, no matter how many colours it comes in.
+ * Products without that option fall back to counting variants.
+ */
+export function getVariantAvailabilityRatio(
+  variants: ProductVariant[],
+  options: StockClassificationOptions,
+  optionName?: string | null
+): number {
+  if (variants.length === 0) return 0;
+
+  const normalizedOption = optionName?.trim().toLowerCase();
+  if (normalizedOption) {
+    const valueAvailability = new Map<string, boolean>();
+
+    for (const variant of variants) {
+      const option = variant.selectedOptions.find(selected => selected.name.toLowerCase() === normalizedOption);
+      if (!option) continue;
+      const inStock = isVariantInStock(variant, options);
+      valueAvailability.set(option.value, (valueAvailability.get(option.value) || false) || inStock);
+    }
+
+    if (valueAvailability.size > 0) {
+      const availableValues = Array.from(valueAvailability.values()).filter(Boolean).length;
+      return availableValues / valueAvailability.size;
+    }
+  }
+
+  const availableVariants = variants.filter(variant => isVariantInStock(variant, options)).length;
+  return availableVariants / variants.length;
+}
+
+/**
+ * Decides whether a product counts as in stock: any in-stock variant is enough,
+ * or in size availability mode, at least variantRatioThreshold % of its variants
+ * With excludeContinueSelling, products that can be oversold always keep their position
+ */
+export function isProductInStock(
+  variants: ProductVariant[],
+  options: StockClassificationOptions = DEFAULT_STOCK_OPTIONS
+): boolean {
+  if (options.excludeContinueSelling && variants.some(variant => variant.inventoryPolicy === 'CONTINUE')) {
+    return true;
+  }
+
+  const ratioThreshold = options.variantRatioThreshold || 0;
+  if (ratioThreshold > 0) {
+    return getVariantAvailabilityRatio(variants, options, options.variantRatioOption) * 100 >= ratioThreshold;
+  }
+
+  return variants.some(variant => isVariantInStock(variant, options));
+}
+
+/**
+ * Maps a variant node from the GraphQL response to our ProductVariant shape
+ */
+function toProductVariant(node: any): ProductVariant {
+  return {
+    id: node.id,
+    inventoryQuantity: node.inventoryQuantity || 0,
+    availableForSale: node.availableForSale || false,
+    inventoryPolicy: node.inventoryPolicy === 'CONTINUE' ? 'CONTINUE' : 'DENY',
+    inventoryTracked: node.inventoryItem?.tracked ?? true,
+    selectedOptions: node.selectedOptions || [],
+    price: Number(node.price || 0),
+    unitCost: node.inventoryItem?.unitCost ? Number(node.inventoryItem.unitCost.amount) : null,
+    inventoryItemId: node.inventoryItem?.id || null,
+  };
+}
+
+/**
+ * Recalculates quantity and availability from the selected locations only
+ * (inventoryQuantity and availableForSale cover every location, including retail stores)
+ * Levels are read one location at a time, in batches of LOCATION_LEVELS_BATCH_SIZE inventory items
+ */
+export async function applyLocationStock(
+  admin: AdminApiContext,
+  variants: ProductVariant[],
+  locationIds: string[]
+): Promise<ProductVariant[]> {
+  if (locationIds.length === 0) return variants;
+
+  const itemIds = Array.from(new Set(
+    variants.map(variant => variant.inventoryItemId).filter((id): id is string => Boolean(id))
+  ));
+  const quantities = new Map<string, number>();
+
+  for (const locationId of locationIds) {
+    for (let index = 0; index < itemIds.length; index += LOCATION_LEVELS_BATCH_SIZE) {
+      const response = await admin.graphql(FETCH_LOCATION_LEVELS_QUERY, {
+        variables: { ids: itemIds.slice(index, index + LOCATION_LEVELS_BATCH_SIZE), locationId },
+      });
+
+      const data: any = await response.json();
+
+      if (data.errors) {
+        console.error('❌ GraphQL errors fetching location inventory levels:', data.errors);
+        throw new Error(`GraphQL error: ${data.errors[0]?.message}`);
+      }
+
+      for (const item of data.data?.nodes || []) {
+        if (!item?.id) continue;
+        const quantity = item.inventoryLevel?.quantities?.[0]?.quantity || 0;
+        quantities.set(item.id, (quantities.get(item.id) || 0) + quantity);
+      }
+    }
+  }
+
+  return variants.map(variant => {
+    if (!variant.inventoryItemId) return variant;
+    const quantity = quantities.get(variant.inventoryItemId) || 0;
+    return {
+      ...variant,
+      inventoryQuantity: quantity,
+      availableForSale: !variant.inventoryTracked || variant.inventoryPolicy === 'CONTINUE' || quantity > 0,
+    };
+  });
+}
+
+/**
+ * Fetches the variants of a product that didn't fit in the first page of the collection query
+ */
+export async function fetchRemainingVariants(
+  admin: AdminApiContext,
+  productId: string,
+  after: string | null,
+  locationIds: string[] = []
+): Promise<ProductVariant[]> {
+  const variants: ProductVariant[] = [];
+  let hasNextPage = true;
+  let cursor: string | null = after;
+
+  while (hasNextPage) {
+    const response = await admin.graphql(FETCH_PRODUCT_VARIANTS_QUERY, {
+      variables: { productId, first: 250, after: cursor },
+    });
+
+    const data: any = await response.json();
+
+    if (data.errors) {
+      console.error('❌ GraphQL errors fetching product variants:', data.errors);
+      throw new Error(`GraphQL error: ${data.errors[0]?.message}`);
+    }
+
+    const page = data.data?.product?.variants;
+    if (!page) break;
+
+    variants.push(...page.edges.map((edge: any) => toProductVariant(edge.node)));
+    hasNextPage = page.pageInfo.hasNextPage;
+    cursor = page.pageInfo.endCursor;
+  }
+
+  return applyLocationStock(admin, variants, locationIds);
+}
+
+/**
+ * Returns the ids of the collection's products that aren't published to the given publication
+ */
+export async function fetchUnpublishedProductIds(
+  admin: AdminApiContext,
+  collectionId: string,
+  publicationId: string
+): Promise<Set<string>> {
+  const unpublished = new Set<string>();
+  let hasNextPage = true;
+  let cursor: string | null = null;
+
+  while (hasNextPage) {
+    const response = await admin.graphql(FETCH_COLLECTION_PUBLICATION_QUERY, {
+      variables: { collectionId, publicationId, first: 250, after: cursor },
+    });
+
+    const data: any = await response.json();
+
+    if (data.errors) {
+      console.error('❌ GraphQL errors fetching publication status:', data.errors);
+      throw new Error(`GraphQL error: ${data.errors[0]?.message}`);
+    }
+
+    const products = data.data?.collection?.products;
+    if (!products) {
+      throw new Error(`Collection not found: ${collectionId}`);
+    }
+
+    for (const edge of products.edges) {
+      if (!edge.node.publishedOnPublication) unpublished.add(edge.node.id);
+    }
+
+    hasNextPage = products.pageInfo.hasNextPage;
+    cursor = products.pageInfo.endCursor;
+  }
+
+  return unpublished;
+}
+
+/**
+ * Maps a product's metafield nodes to values keyed by "namespace.key"
+ */
+export function toMetafieldMap(nodes: any[] | undefined): Record<string, string> {
+  const metafields: Record<string, string> = {};
+  for (const node of nodes || []) {
+    metafields[`${node.namespace}.${node.key}`] = node.value ?? '';
+  }
+  return metafields;
+}
+
 /**
  * Fetches all products from a Shopify collection with inventory data
  * Handles pagination automatically to get all products
+ * With a publicationId (the collection's market or sales channel), products that
+ * aren't available there count as out of stock
+ * metafieldKeys ("namespace.key") are the metafields exclusion rules need
  */
 export async function fetchCollectionProducts(
   admin: AdminApiContext,
   collectionId: string,
-  sortType: SortTypeValue = 'bestsellers asc'
+  sortType: SortTypeValue = 'bestsellers asc',
+  stockOptions: StockClassificationOptions = DEFAULT_STOCK_OPTIONS,
+  publicationId: string | null = null,
+  metafieldKeys: string[] = []
 ): Promise<CollectionProducts> {
   const allProducts: ProductForSorting[] = [];
   let hasNextPage = true;
   let cursor: string | null = null;
+  const unpublishedIds = publicationId
+    ? await fetchUnpublishedProductIds(admin, collectionId, publicationId)
+    : new Set<string>();
 
   // Get sort parameters from mapping
   const sortConfig = SORT_TYPE_MAPPING[sortType] || SORT_TYPE_MAPPING['bestsellers asc'];
+  const locationIds = stockOptions.locationIds || [];
+  // Metafields add up to 25 nodes per product to the query cost, so fetch fewer products per page with them
+  const pageSize = metafieldKeys.length > 0 ? 25 : 250;
   
   console.log(`📦 Fetching products for collection: ${collectionId}`);
   console.log(`🔄 Sort type requested: "${sortType}"`);
@@ -113,20 +615,22 @@ export async function fetchCollectionProducts(
       const response = await admin.graphql(FETCH_COLLECTION_PRODUCTS_QUERY, {
         variables: {
           collectionId,
-          first: 250, // Max products per request
+          first: pageSize,
           after: cursor,
           sortKey: sortConfig.sortKey,
           reverse: sortConfig.reverse,
+          includeMetafields: metafieldKeys.length > 0,
+          metafieldKeys,
         },
       });
 
-      const data = await response.json();
+      const data: any = await response.json();
       
       if (data.errors) {
         console.error('❌ GraphQL errors:', data.errors);
         console.error('📁 Query variables were:', {
           collectionId,
-          first: 250,
+          first: pageSize,
           after: cursor,
           sortKey: sortConfig.sortKey,
           reverse: sortConfig.reverse,
@@ -139,31 +643,51 @@ export async function fetchCollectionProducts(
         throw new Error(`Collection not found: ${collectionId}`);
       }
 
-      // Process products from this page
-      const products = collection.products.edges.map((edge: any) => {
+      // Process variants to determine stock status
+      const pageVariants: ProductVariant[][] = [];
+      for (const edge of collection.products.edges) {
         const product = edge.node;
-        
-        // Process variants to determine stock status
-        const variants: ProductVariant[] = product.variants.edges.map((vEdge: any) => ({
-          id: vEdge.node.id,
-          inventoryQuantity: vEdge.node.inventoryQuantity || 0,
-          availableForSale: vEdge.node.availableForSale || false,
-        }));
+        const variants: ProductVariant[] = product.variants.edges.map((vEdge: any) => toProductVariant(vEdge.node));
 
-        // Determine if product is in stock
-        // Products are considered "in stock" if they're available for sale
-        // This includes products set to "continue selling when out of stock"
-        const isInStock = variants.some(variant => variant.availableForSale);
+        // Products with more than 100 variants need extra requests for the rest
+        if (product.variants.pageInfo?.hasNextPage) {
+          variants.push(...await fetchRemainingVariants(admin, product.id, product.variants.pageInfo.endCursor));
+        }
+        pageVariants.push(variants);
+      }
 
+      // Selected locations are read for the whole page at once, so batches stay full
+      const locationVariants = await applyLocationStock(admin, pageVariants.flat(), locationIds);
+      let variantOffset = 0;
 
-        return {
+      // Process products from this page
+      const products: ProductForSorting[] = [];
+      collection.products.edges.forEach((edge: any, productIndex: number) => {
+        const product = edge.node;
+        const variants = locationVariants.slice(variantOffset, variantOffset + pageVariants[productIndex].length);
+        variantOffset += variants.length;
+
+        // Determine if product is in stock using the shop's classification strategy
+        const isAvailableInContext = !unpublishedIds.has(product.id);
+        const isInStock = isAvailableInContext && isProductInStock(variants, stockOptions);
+
+        products.push({
           id: product.id,
           title: product.title,
           handle: product.handle,
           tags: product.tags || [],
+          vendor: product.vendor || '',
+          productType: product.productType || '',
+          createdAt: product.createdAt,
+          minPrice: Number(product.priceRangeV2?.minVariantPrice?.amount || 0),
+          metafields: toMetafieldMap(product.metafields?.nodes),
+          status: product.status || 'ACTIVE',
+          // onlineStoreUrl is null when the product isn't published to the Online Store channel
+          isPublishedOnlineStore: Boolean(product.onlineStoreUrl),
+          isAvailableInContext,
           variants,
           isInStock,
-        };
+        });
       });
 
       allProducts.push(...products);
@@ -190,6 +714,118 @@ export async function fetchCollectionProducts(
   };
 }
 
+/**
+ * Fetches the product ids of a collection in the given sort order
+ * Only ids are requested, so this is much cheaper than fetchCollectionProducts
+ */
+export async function fetchCollectionProductIds(
+  admin: AdminApiContext,
+  collectionId: string,
+  sortType: SortTypeValue = 'manual asc'
+): Promise<string[]> {
+  const sortConfig = SORT_TYPE_MAPPING[sortType] || SORT_TYPE_MAPPING['manual asc'];
+  const productIds: string[] = [];
+  let hasNextPage = true;
+  let cursor: string | null = null;
+
+  while (hasNextPage) {
+    const response = await admin.graphql(FETCH_COLLECTION_PRODUCT_IDS_QUERY, {
+      variables: {
+        collectionId,
+        first: 250,
+        after: cursor,
+        sortKey: sortConfig.sortKey,
+        reverse: sortConfig.reverse,
+      },
+    });
+
+    const data: any = await response.json();
+
+    if (data.errors) {
+      console.error('❌ GraphQL errors fetching product ids:', data.errors);
+      throw new Error(`GraphQL error: ${data.errors[0]?.message}`);
+    }
+
+    const products = data.data?.collection?.products;
+    if (!products) {
+      throw new Error(`Collection not found: ${collectionId}`);
+    }
+
+    productIds.push(...products.edges.map((edge: any) => edge.node.id));
+    hasNextPage = products.pageInfo.hasNextPage;
+    cursor = products.pageInfo.endCursor;
+  }
+
+  return productIds;
+}
+
+export interface CollectionSortInfo {
+  title: string;
+  sortOrder: string; // Shopify sort order, e.g. BEST_SELLING or MANUAL
+  isSmart: boolean; // Rule-based (automated) collection - Shopify decides which products it contains
+}
+
+/**
+ * Fetches a collection's title, sort order and whether it is a smart collection
+ */
+export async function fetchCollectionSortInfo(
+  admin: AdminApiContext,
+  collectionId: string
+): Promise<CollectionSortInfo> {
+  const response = await admin.graphql(FETCH_COLLECTION_SORT_ORDER_QUERY, {
+    variables: { collectionId },
+  });
+
+  const data: any = await response.json();
+
+  if (data.errors) {
+    console.error('❌ GraphQL errors fetching collection sort order:', data.errors);
+    throw new Error(`GraphQL error: ${data.errors[0]?.message}`);
+  }
+
+  const collection = data.data?.collection;
+  if (!collection) {
+    throw new Error(`Collection not found: ${collectionId}`);
+  }
+
+  return {
+    title: collection.title,
+    sortOrder: collection.sortOrder,
+    isSmart: Boolean(collection.ruleSet),
+  };
+}
+
+/**
+ * Fetches the product ids of a collection in the order shoppers see right now,
+ * i.e. following the collection's own sort order (manual or automatic), along with its sort info
+ */
+export async function fetchCollectionCurrentOrder(
+  admin: AdminApiContext,
+  collectionId: string
+): Promise<CollectionSortInfo & { productIds: string[] }> {
+  const sortInfo = await fetchCollectionSortInfo(admin, collectionId);
+  const { sortOrder } = sortInfo;
+
+  // Map Shopify's sort order back to one of our sort types (anything unknown reads the manual order)
+  const sortType = (Object.keys(COLLECTION_SORT_ORDER_MAPPING) as (keyof typeof COLLECTION_SORT_ORDER_MAPPING)[])
+    .find(key => COLLECTION_SORT_ORDER_MAPPING[key] === sortOrder) || 'manual asc';
+
+  return {
+    ...sortInfo,
+    productIds: await fetchCollectionProductIds(admin, collectionId, sortType),
+  };
+}
+
+/**
+ * Fetches the product ids of a collection in its current manual order
+ */
+export async function fetchCollectionManualOrder(
+  admin: AdminApiContext,
+  collectionId: string
+): Promise<string[]> {
+  return fetchCollectionProductIds(admin, collectionId, 'manual asc');
+}
+
 /**
  * Determines if a product should be excluded from out-of-stock sorting
  * based on its tags and the collection's exclusion rules
@@ -216,34 +852,375 @@ export function shouldExcludeProduct(
 }
 
 /**
- * Sorts products using dual-layer approach:
- * 1. First by stock status (in-stock first, unless excluded by tags)
- * 2. Then by the original collection order (already sorted by best-selling)
+ * Returns the first of the product's tags that is an exclusion tag, or null
+ */
+export function findExclusionTag(
+  product: ProductForSorting,
+  exclusionTags: string[]
+): string | null {
+  return product.tags.find(tag => exclusionTags.includes(tag.toLowerCase())) || null;
+}
+
+/**
+ * The status that a status policy applies to - draft, archived or unpublished
+ */
+function getStatusName(product: ProductForSorting): string {
+  if (product.status === 'DRAFT') return 'draft';
+  if (product.status === 'ARCHIVED') return 'archived';
+  return 'unpublished';
+}
+
+/**
+ * Which exclusion rule set (collection or global) keeps the product in place, or null
+ */
+export function findExcludingRuleSet(
+  product: ProductForSorting,
+  options: Pick<SortOptions, 'collectionExclusionRules' | 'globalExclusionRules'>
+): 'collection' | 'global' | null {
+  if (options.collectionExclusionRules && evaluateRuleSet(options.collectionExclusionRules, product)) return 'collection';
+  if (options.globalExclusionRules && evaluateRuleSet(options.globalExclusionRules, product)) return 'global';
+  return null;
+}
+
+/**
+ * How a push-down or boost list applies to a product: the matching tag, 'rule', or null
+ */
+function findTagOrRuleMatch(
+  product: ProductForSorting,
+  tags: string[] = [],
+  rules?: ExclusionRuleSet
+): { tag: string | null } | null {
+  const tag = findExclusionTag(product, tags);
+  if (tag) return { tag };
+  if (rules && evaluateRuleSet(rules, product)) return { tag: null };
+  return null;
+}
+
+/**
+ * Merges per-collection and global exclusion tags into one lowercase, de-duplicated list
+ */
+export function mergeExclusionTags(
+  collectionTags: string[],
+  globalTags: string[] = []
+): string[] {
+  return Array.from(new Set([...collectionTags, ...globalTags].map(tag => tag.toLowerCase())));
+}
+
+/**
+ * Returns the status policy that applies to a product
+ * Active products published to the Online Store have no special policy
+ */
+export function getStatusPolicy(
+  product: ProductForSorting,
+  policies: StatusPolicies = DEFAULT_STATUS_POLICIES
+): StatusPolicy {
+  if (product.status === 'DRAFT') return policies.draft;
+  if (product.status === 'ARCHIVED') return policies.archived;
+  if (!product.isPublishedOnlineStore) return policies.unpublished;
+  return 'ignore';
+}
+
+/**
+ * Total units available across a product's variants
+ * Returns null when any variant doesn't track inventory (stock is effectively unlimited)
+ */
+export function getAvailableQuantity(product: ProductForSorting): number | null {
+  if (product.variants.some(variant => !variant.inventoryTracked)) return null;
+  return product.variants.reduce((sum, variant) => sum + Math.max(0, variant.inventoryQuantity), 0);
+}
+
+/**
+ * Whether an in-stock product is running low (1..threshold units left)
+ */
+export function isLowStock(product: ProductForSorting, threshold: number): boolean {
+  if (threshold <= 0 || !product.isInStock) return false;
+  const quantity = getAvailableQuantity(product);
+  return quantity !== null && quantity > 0 && quantity <= threshold;
+}
+
+/**
+ * Average margin (0..100 %) of the variants that have both a price and a cost, or null
+ */
+export function getProductMargin(product: ProductForSorting): number | null {
+  const margins = product.variants
+    .filter(variant => variant.unitCost !== null && variant.price > 0)
+    .map(variant => (variant.price - (variant.unitCost as number)) / variant.price * 100);
+  if (margins.length === 0) return null;
+  return margins.reduce((sum, margin) => sum + margin, 0) / margins.length;
+}
+
+/**
+ * The value a secondary sort step orders a product by - null when the product has none
+ */
+export function getSecondarySortValue(
+  product: ProductForSorting,
+  step: SecondarySortStep,
+  salesVelocity: Record<number, SalesByProduct> = {}
+): number | string | null {
+  switch (step.key) {
+    case 'inventory':
+      // Untracked products never run out, so they count as having the most stock
+      return getAvailableQuantity(product) ?? Number.POSITIVE_INFINITY;
+    case 'restock_date': {
+      const time = Date.parse(product.metafields[step.metafieldKey || ''] || '');
+      return Number.isNaN(time) ? null : time;
+    }
+    case 'margin':
+      return getProductMargin(product);
+    case 'sales_velocity':
+      return salesVelocity[step.days || 30]?.[product.id]?.units ?? 0;
+    case 'metafield': {
+      const value = product.metafields[step.metafieldKey || ''];
+      if (value === undefined || value === '') return null;
+      return Number.isFinite(Number(value)) ? Number(value) : value.toLowerCase();
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Orders one tier by a pipeline of secondary sort steps
+ * Products without a value for a step go after those with one, whatever the direction;
+ * ties on every step keep the order Shopify returned (Array.prototype.sort is stable)
+ */
+export function applySecondarySort(
+  products: ProductForSorting[],
+  steps: SecondarySortStep[] = [],
+  salesVelocity: Record<number, SalesByProduct> = {}
+): ProductForSorting[] {
+  if (steps.length === 0) return products;
+
+  const values = new Map(products.map(product => [
+    product.id,
+    steps.map(step => getSecondarySortValue(product, step, salesVelocity)),
+  ]));
+
+  return [...products].sort((a, b) => {
+    const aValues = values.get(a.id) as (number | string | null)[];
+    const bValues = values.get(b.id) as (number | string | null)[];
+
+    for (let index = 0; index < steps.length; index++) {
+      const aValue = aValues[index];
+      const bValue = bValues[index];
+      if (aValue === bValue) continue;
+      if (aValue === null) return 1;
+      if (bValue === null) return -1;
+
+      const comparison = typeof aValue === 'number' && typeof bValue === 'number'
+        ? aValue - bValue
+        : String(aValue).localeCompare(String(bValue));
+      if (comparison !== 0) return steps[index].direction === 'desc' ? -comparison : comparison;
+    }
+    return 0;
+  });
+}
+
+// Placements of products that keep their position whatever the sort - status "keep" and exclusions
+const KEPT_IN_PLACE_REASONS: PlacementReason[] = ['status_kept', 'excluded_by_tag', 'excluded_by_rule'];
+
+/**
+ * Sorts a tier while products that are kept in place stay at their slots,
+ * the other products being sorted into the slots around them
+ */
+export function sortAroundKeptProducts(
+  products: ProductForSorting[],
+  isKept: (product: ProductForSorting) => boolean,
+  sort: (products: ProductForSorting[]) => ProductForSorting[]
+): ProductForSorting[] {
+  const sorted = sort(products.filter(product => !isKept(product)));
+  let next = 0;
+  return products.map(product => (isKept(product) ? product : sorted[next++]));
+}
+
+/**
+ * Ranks products by units sold or revenue, best first
+ * Products without sales count as zero and keep the order Shopify returned
+ */
+export function orderBySales(
+  products: ProductForSorting[],
+  sales: SalesByProduct,
+  metric: SalesMetric
+): ProductForSorting[] {
+  return [...products].sort((a, b) => (sales[b.id]?.[metric] || 0) - (sales[a.id]?.[metric] || 0));
+}
+
+/**
+ * Sorts products into ordered tiers:
+ * 1. Pinned products are set aside and later placed at their own slots
+ * 2. In-stock products with a boost tag or rule, or restocked recently, go to the boosted tier at the top
+ * 3. The rest by stock status - in stock, low stock (optional), out of stock;
+ *    out-of-stock products still inside the new-arrival grace period stay in the in_stock tier
+ * 4. Then by the tier's secondary sort steps, if any, and the original collection order
+ *    (already sorted by best-selling, or ranked by units sold / revenue) within each tier;
+ *    products kept in place (status "keep", exclusions) hold their slot and the others sort around them
+ * Exclusion tags are the collection's own tags plus the shop's global exclusion tags;
+ * products matching them or the collection/global exclusion rules stay in the in_stock tier
+ * "Always push down" tags and rules win over exclusions and send products to the bottom tier
+ * Draft, archived and unpublished products follow the shop's status policies -
+ * the "bottom" tier goes after out-of-stock products
  */
 export function sortProductsWithInventory(
   products: ProductForSorting[],
-  exclusionTags: string[] = []
-): { inStock: ProductForSorting[]; outOfStock: ProductForSorting[] } {
+  collectionExclusionTags: string[] = [],
+  globalExclusionTags: string[] = [],
+  options: SortOptions = {}
+): SortResult {
+  const exclusionTags = mergeExclusionTags(collectionExclusionTags, globalExclusionTags);
+  const statusPolicies = options.statusPolicies || DEFAULT_STATUS_POLICIES;
+  const lowStockThreshold = options.lowStockThreshold || 0;
+  const pushDownTags = (options.pushDownTags || []).map(tag => tag.toLowerCase());
+  const boostTags = (options.boostTags || []).map(tag => tag.toLowerCase());
+  const now = Date.now();
+  const newArrivalSince = now - (options.newArrivalGraceDays || 0) * 24 * 60 * 60 * 1000;
+  const restockedSince = now - (options.restockBoostHours || 0) * 60 * 60 * 1000;
+  const isNewArrival = (product: ProductForSorting) =>
+    Boolean(options.newArrivalGraceDays) && new Date(product.createdAt).getTime() >= newArrivalSince;
+  const isRecentlyRestocked = (product: ProductForSorting) =>
+    Boolean(options.restockBoostHours) && (options.restockTimes?.[product.id]?.getTime() ?? 0) >= restockedSince;
+
+  const rankedProducts = options.salesSort
+    ? orderBySales(products, options.salesVelocity?.[options.salesSort.days] || {}, options.salesSort.metric)
+    : products;
+
   console.log(`🔄 Sorting ${products.length} products with exclusion tags:`, exclusionTags);
   
-  const inStock: ProductForSorting[] = [];
-  const outOfStock: ProductForSorting[] = [];
+  const pinnedPositions: Record<string, number> = {};
+  for (const pin of options.pins || []) {
+    pinnedPositions[pin.productId] = pin.position;
+  }
+
+  const buckets: Record<TierName, ProductForSorting[]> = {
+    pinned: [],
+    boosted: [],
+    in_stock: [],
+    low_stock: [],
+    out_of_stock: [],
+    bottom: [],
+  };
+  const placements: Record<string, Placement> = {};
+
+  for (const product of rankedProducts) {
+    if (pinnedPositions[product.id]) {
+      // Pinned by the merchant - stays at its slot whatever its stock or status
+      buckets.pinned.push(product);
+      placements[product.id] = { reason: 'pinned', detail: `${pinnedPositions[product.id]}` };
+      continue;
+    }
+
+    const statusPolicy = getStatusPolicy(product, statusPolicies);
+
+    if (statusPolicy === 'keep') {
+      // Draft/archived/unpublished product the shop wants left where it is
+      buckets.in_stock.push(product);
+      placements[product.id] = { reason: 'status_kept', detail: getStatusName(product) };
+      continue;
+    }
+
+    if (statusPolicy === 'bottom') {
+      // Draft/archived/unpublished product the shop wants below everything else
+      buckets.bottom.push(product);
+      placements[product.id] = { reason: 'status_bottom', detail: getStatusName(product) };
+      continue;
+    }
+
+    const pushDown = findTagOrRuleMatch(product, pushDownTags, options.pushDownRules);
+    if (pushDown) {
+      // Merchant wants this product out of the way whatever its stock (e.g. discontinued)
+      buckets.bottom.push(product);
+      placements[product.id] = pushDown.tag
+        ? { reason: 'pushed_down_by_tag', detail: pushDown.tag }
+        : { reason: 'pushed_down_by_rule' };
+      continue;
+    }
 
-  for (const product of products) {
     const isExcluded = shouldExcludeProduct(product, exclusionTags);
+    const excludingRuleSet = isExcluded ? null : findExcludingRuleSet(product, options);
+    // Boosted products only go to the top while they can be bought
+    const boost = product.isInStock ? findTagOrRuleMatch(product, boostTags, options.boostRules) : null;
     
-    if (product.isInStock || isExcluded) {
-      // Keep in original position (in-stock products + excluded products)
-      inStock.push(product);
+    if (isExcluded) {
+      // Keep in original position regardless of stock
+      buckets.in_stock.push(product);
+      placements[product.id] = { reason: 'excluded_by_tag', detail: findExclusionTag(product, exclusionTags) || undefined };
+    } else if (excludingRuleSet) {
+      // Matches an exclusion rule - kept in position like a tagged product
+      buckets.in_stock.push(product);
+      placements[product.id] = { reason: 'excluded_by_rule', detail: excludingRuleSet };
+    } else if (boost) {
+      buckets.boosted.push(product);
+      placements[product.id] = boost.tag
+        ? { reason: 'boosted_by_tag', detail: boost.tag }
+        : { reason: 'boosted_by_rule' };
+    } else if (product.isInStock && isRecentlyRestocked(product)) {
+      buckets.boosted.push(product);
+      placements[product.id] = { reason: 'recently_restocked' };
+    } else if (isLowStock(product, lowStockThreshold)) {
+      buckets.low_stock.push(product);
+      placements[product.id] = { reason: 'low_stock' };
+    } else if (product.isInStock) {
+      buckets.in_stock.push(product);
+      placements[product.id] = { reason: 'in_stock' };
+    } else if (product.isAvailableInContext && isNewArrival(product)) {
+      // Freshly created products often launch before stock arrives - don't bury them yet
+      buckets.in_stock.push(product);
+      placements[product.id] = { reason: 'new_arrival' };
     } else {
       // Move to end (out-of-stock products without exclusion tags)
-      outOfStock.push(product);
+      buckets.out_of_stock.push(product);
+      placements[product.id] = { reason: product.isAvailableInContext ? 'out_of_stock' : 'not_available' };
     }
   }
 
-  console.log(`✅ Sorted: ${inStock.length} in-stock/excluded, ${outOfStock.length} out-of-stock`);
+  // Products kept in place hold their slot in the tier; only the rest are reordered by the secondary sort
+  const isKeptInPlace = (product: ProductForSorting) => KEPT_IN_PLACE_REASONS.includes(placements[product.id].reason);
+  for (const name of ['boosted', 'in_stock', 'low_stock'] as const) {
+    buckets[name] = sortAroundKeptProducts(buckets[name], isKeptInPlace, tier => applySecondarySort(tier, options.inStockSort, options.salesVelocity));
+  }
+  buckets.out_of_stock = applySecondarySort(buckets.out_of_stock, options.outOfStockSort, options.salesVelocity);
+
+  const order: TierName[] = options.lowStockBoost
+    ? ['pinned', 'boosted', 'low_stock', 'in_stock', 'out_of_stock', 'bottom']
+    : [...TIER_NAMES];
+  const tiers = order.map(name => ({ name, products: buckets[name] }));
+
+  // Only pins of products that are actually in the collection matter
+  buckets.pinned.sort((a, b) => pinnedPositions[a.id] - pinnedPositions[b.id]);
+  const appliedPins = Object.fromEntries(buckets.pinned.map(product => [product.id, pinnedPositions[product.id]]));
+
+  console.log(`✅ Sorted:`, getTierCounts({ tiers }));
   
-  return { inStock, outOfStock };
+  return { tiers, placements, pinnedPositions: appliedPins };
+}
+
+/**
+ * Flattens sorted tiers into the product id order to apply to the collection
+ */
+export function getSortedProductIds(result: SortResult): string[] {
+  const sortedIds = result.tiers
+    .filter(tier => tier.name !== 'pinned')
+    .flatMap(tier => tier.products.map(product => product.id));
+
+  // Insert pinned products at their slots, lowest slot first so earlier inserts don't shift later ones
+  // Slots past the end of the collection just put the product last
+  const pinned = result.tiers.find(tier => tier.name === 'pinned')?.products || [];
+  for (const product of pinned) {
+    const index = Math.min(result.pinnedPositions[product.id] - 1, sortedIds.length);
+    sortedIds.splice(index, 0, product.id);
+  }
+
+  return sortedIds;
+}
+
+/**
+ * Number of products in each tier
+ */
+export function getTierCounts(result: Pick<SortResult, 'tiers'>): TierCounts {
+  const counts = Object.fromEntries(TIER_NAMES.map(name => [name, 0])) as TierCounts;
+  for (const tier of result.tiers) {
+    counts[tier.name] += tier.products.length;
+  }
+  return counts;
 }
 
 // GraphQL mutation to update collection sort order to manual
@@ -343,7 +1320,7 @@ async function waitForJobCompletion(
 /**
  * Updates collection sort order
  */
-async function updateCollectionSortOrder(
+export async function updateCollectionSortOrder(
   admin: AdminApiContext,
   collectionId: string,
   sortOrder: string = 'MANUAL'
@@ -380,6 +1357,15 @@ async function updateCollectionSortOrder(
       };
     }
 
+    // Shopify can accept the update without applying it - check the collection really changed
+    if (result?.collection?.sortOrder && result.collection.sortOrder !== sortOrder) {
+      console.error(`❌ Collection is still sorted by ${result.collection.sortOrder}`);
+      return {
+        success: false,
+        error: `Sort order error: collection is still sorted by ${result.collection.sortOrder}`,
+      };
+    }
+
     console.log(`✅ Collection sort order updated to ${sortOrder}`);
     return { success: true };
 
@@ -392,22 +1378,143 @@ async function updateCollectionSortOrder(
   }
 }
 
+/**
+ * Submits a single batch of moves and waits for the resulting job
+ * When `mustComplete` is set, a job that doesn't finish in time counts as a failure,
+ * because the next batch's positions assume this one has been applied
+ */
+async function submitReorderBatch(
+  admin: AdminApiContext,
+  collectionId: string,
+  moves: ReorderMove[],
+  mustComplete: boolean
+): Promise<{ success: boolean; jobId?: string; error?: string }> {
+  const response = await admin.graphql(REORDER_COLLECTION_PRODUCTS_MUTATION, {
+    variables: {
+      id: collectionId,
+      moves: moves,
+    },
+  });
+
+  const data = await response.json();
+
+  if (data.errors) {
+    console.error('❌ GraphQL errors during reorder:', data.errors);
+    return { 
+      success: false, 
+      error: `GraphQL error: ${data.errors[0]?.message}` 
+    };
+  }
+
+  const result = data.data?.collectionReorderProducts;
+  
+  if (result?.userErrors?.length > 0) {
+    console.error('❌ User errors during reorder:', result.userErrors);
+    return { 
+      success: false, 
+      error: `Reorder error: ${result.userErrors[0]?.message}` 
+    };
+  }
+
+  const jobId = result?.job?.id;
+  const jobDone = result?.job?.done;
+
+  console.log(`✅ Collection reorder initiated:`, { jobId, jobDone });
+
+  // Wait for the reorder job to complete
+  if (jobId && !jobDone) {
+    const jobResult = await waitForJobCompletion(admin, jobId);
+    
+    if (!jobResult.completed) {
+      if (mustComplete) {
+        return { success: false, jobId, error: `Reorder job ${jobId} did not complete in time` };
+      }
+      console.warn('⚠️ Reorder job did not complete in time, but continuing...');
+      // Don't fail - the job might still complete eventually
+    }
+  }
+
+  return { success: true, jobId: jobId || undefined };
+}
+
+// How reorderCollectionProducts builds its moves:
+// - full: one move per product (rewrites the whole collection)
+// - incremental: diff against the current manual order and only move what changed
+export type ReorderMode = 'full' | 'incremental';
+
+export interface ReorderProgress {
+  totalBatches: number;
+  completedBatches: number;
+  movesApplied: number;
+  failedBatch?: number; // 0-based index of the batch that failed - pass it as startBatch to resume
+}
+
+export interface ReorderResult {
+  success: boolean;
+  jobId?: string;
+  movesCount?: number;
+  progress?: ReorderProgress;
+  error?: string;
+}
+
+/**
+ * Makes sure a collection is on MANUAL sort order before it is reordered
+ * Collections already on MANUAL are left alone - an update would fire a collections/update webhook
+ * and queue another re-sort for nothing
+ * Smart collections can be reordered too, but products that newly match their rules
+ * are added at the end until the next re-sort
+ */
+export async function ensureManualSortOrder(
+  admin: AdminApiContext,
+  collectionId: string
+): Promise<{ success: boolean; isSmart?: boolean; error?: string }> {
+  const { sortOrder, isSmart } = await fetchCollectionSortInfo(admin, collectionId);
+
+  if (isSmart) {
+    console.warn(`⚠️ ${collectionId} is a smart collection - newly matching products will appear at the end until the next re-sort`);
+  }
+
+  if (sortOrder === 'MANUAL') {
+    return { success: true, isSmart };
+  }
+
+  const result = await updateCollectionSortOrder(admin, collectionId, 'MANUAL');
+  if (!result.success) {
+    return {
+      success: false,
+      isSmart,
+      error: isSmart
+        ? `Smart collection could not be switched to manual sort order: ${result.error}`
+        : result.error,
+    };
+  }
+
+  return { success: true, isSmart };
+}
+
 /**
  * Reorders products in a Shopify collection using the Admin API
  * Takes the sorted product IDs and applies the new order to the collection
- * Then restores the original sort order
+ * In incremental mode only the products that actually changed position are moved
+ *
+ * Moves are sent in batches of MAX_MOVES_PER_REORDER, one after another, waiting for
+ * each job before sending the next. If a batch fails, the result reports which one so
+ * the caller can resume with `startBatch` (full mode - incremental mode simply
+ * recomputes the remaining moves on the next run).
  */
 export async function reorderCollectionProducts(
   admin: AdminApiContext,
   collectionId: string,
   sortedProductIds: string[],
-  originalSortType: SortTypeValue = 'bestsellers asc'
-): Promise<{ success: boolean; jobId?: string; error?: string }> {
+  originalSortType: SortTypeValue = 'bestsellers asc',
+  mode: ReorderMode = 'full',
+  startBatch: number = 0
+): Promise<ReorderResult> {
   try {
-    console.log(`🔄 Reordering ${sortedProductIds.length} products in collection ${collectionId}`);
+    console.log(`🔄 Reordering ${sortedProductIds.length} products in collection ${collectionId} (${mode} mode)`);
 
     // First, ensure collection is set to manual sort order
-    const sortOrderResult = await updateCollectionSortOrder(admin, collectionId);
+    const sortOrderResult = await ensureManualSortOrder(admin, collectionId);
     if (!sortOrderResult.success) {
       return { 
         success: false, 
@@ -415,64 +1522,69 @@ export async function reorderCollectionProducts(
       };
     }
 
-    // Build moves array - each product moves to its new position
-    const moves = sortedProductIds.map((productId, newIndex) => ({
-      id: productId,
-      newPosition: `${newIndex}`, // Shopify expects string position
-    }));
-
-    console.log(`📋 Generated ${moves.length} move operations`);
-
-    const response = await admin.graphql(REORDER_COLLECTION_PRODUCTS_MUTATION, {
-      variables: {
-        id: collectionId,
-        moves: moves,
-      },
-    });
-
-    const data = await response.json();
-
-    if (data.errors) {
-      console.error('❌ GraphQL errors during reorder:', data.errors);
-      return { 
-        success: false, 
-        error: `GraphQL error: ${data.errors[0]?.message}` 
-      };
+    // Build moves array - either every product, or only the ones that changed position
+    let moves: ReorderMove[] | null = null;
+    if (mode === 'incremental') {
+      const currentOrder = await fetchCollectionManualOrder(admin, collectionId);
+      moves = computeMinimalMoves(currentOrder, sortedProductIds);
+      if (!moves) {
+        console.warn('⚠️ Current manual order does not match the sorted products, falling back to full reorder');
+      }
+    }
+    if (!moves) {
+      moves = buildFullMoves(sortedProductIds);
     }
 
-    const result = data.data?.collectionReorderProducts;
-    
-    if (result?.userErrors?.length > 0) {
-      console.error('❌ User errors during reorder:', result.userErrors);
-      return { 
-        success: false, 
-        error: `Reorder error: ${result.userErrors[0]?.message}` 
-      };
+    if (moves.length === 0) {
+      console.log('✅ Collection already in the desired order, nothing to move');
+      return { success: true, movesCount: 0 };
     }
 
-    const jobId = result?.job?.id;
-    const jobDone = result?.job?.done;
+    const batches = chunkMoves(moves, MAX_MOVES_PER_REORDER);
+    const progress: ReorderProgress = {
+      totalBatches: batches.length,
+      completedBatches: Math.min(startBatch, batches.length),
+      movesApplied: batches.slice(0, startBatch).reduce((sum, batch) => sum + batch.length, 0),
+    };
 
-    console.log(`✅ Collection reorder initiated:`, { jobId, jobDone });
+    console.log(`📋 Generated ${moves.length} move operations in ${batches.length} batch(es)`);
 
-    // Wait for the reorder job to complete
-    if (jobId && !jobDone) {
-      const jobResult = await waitForJobCompletion(admin, jobId);
-      
-      if (!jobResult.completed) {
-        console.warn('⚠️ Reorder job did not complete in time, but continuing...');
-        // Don't fail - the job might still complete eventually
+    let lastJobId: string | undefined;
+    for (let batchIndex = startBatch; batchIndex < batches.length; batchIndex++) {
+      const batch = batches[batchIndex];
+      const isLastBatch = batchIndex === batches.length - 1;
+
+      console.log(`📦 Submitting batch ${batchIndex + 1}/${batches.length} (${batch.length} moves)`);
+
+      const batchResult = await submitReorderBatch(admin, collectionId, batch, !isLastBatch);
+      if (!batchResult.success) {
+        progress.failedBatch = batchIndex;
+        console.error(`❌ Reorder stopped at batch ${batchIndex + 1}/${batches.length}:`, batchResult.error);
+        return {
+          success: false,
+          jobId: batchResult.jobId,
+          movesCount: moves.length,
+          progress,
+          error: `Batch ${batchIndex + 1} of ${batches.length} failed: ${batchResult.error}`,
+        };
       }
+
+      lastJobId = batchResult.jobId;
+      progress.completedBatches++;
+      progress.movesApplied += batch.length;
     }
 
     // Keep collection on MANUAL sort - don't restore original sort order
     // The manual order we created already incorporates the desired sorting logic
     // Restoring to automatic sort (ALPHA_ASC, etc.) would undo our reordering
+    // The original order is snapshotted on first enable and can be restored on disable (original-order.server)
     console.log('✅ Keeping collection on MANUAL sort to preserve out-of-stock positioning');
 
     return { 
       success: true, 
-      jobId: jobId || undefined 
+      jobId: lastJobId,
+      movesCount: moves.length,
+      progress,
     };
 
   } catch (error) {
@@ -482,4 +1594,4 @@ export async function reorderCollectionProducts(
       error: `Failed to reorder: ${error instanceof Error ? error.message : String(error)}` 
     };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,250 @@
+// EXCLUSION RULES SERVICE
+// Saves per-collection exclusion, push-down and boost rules (plus the in-tier order, new-arrival grace period,
+// restock boost and out-of-stock action) and counts the products a rule set matches,
+// so the rule editor can show its effect while the merchant types
+
+import type { AdminApiContext } from '@shopify/shopify-app-remix/server';
+import db from '../db.server';
+import { toMetafieldMap } from './collection-sorting.server';
+import {
+  compactRuleSet,
+  evaluateRuleSet,
+  getRuleMetafieldKeys,
+  parseRuleSet,
+  RULE_KINDS,
+} from '../utils/exclusion-rules';
+import type { ExclusionRuleSet, RuleKind, RuleSubject } from '../utils/exclusion-rules';
+import { parseSecondarySort } from '../utils/secondary-sort';
+import type { SecondarySortConfig } from '../utils/secondary-sort';
+import { parseOutOfStockAction } from '../utils/out-of-stock-actions';
+import type { OutOfStockActionConfig } from '../utils/out-of-stock-actions';
+import { toJsonObject } from '../utils/json-column';
+
+// Shop-wide counts only look at this many products to stay fast
+export const SHOP_SAMPLE_SIZE = 250;
+
+// Products per request - metafields(first: 25) makes each product cost about 27 points,
+// so 25 products (about 700 points) is the most that fits Shopify's 1,000-point single query limit
+const RULE_SUBJECTS_PAGE_SIZE = 250;
+const METAFIELD_RULE_SUBJECTS_PAGE_SIZE = 25;
+
+export interface RuleMatchCount {
+  matched: number;
+  total: number; // Products checked
+  sampled: boolean; // true when only the first SHOP_SAMPLE_SIZE products were checked
+  examples: string[]; // Titles of the first few matching products
+}
+
+// Only the fields rules look at - much cheaper than the sorting query
+const RULE_SUBJECT_FIELDS = `
+  fragment RuleSubjectFields on Product {
+    title
+    tags
+    vendor
+    productType
+    createdAt
+    priceRangeV2 {
+      minVariantPrice {
+        amount
+      }
+    }
+    metafields(first: 25, keys: $metafieldKeys) @include(if: $includeMetafields) {
+      nodes {
+        namespace
+        key
+        value
+      }
+    }
+  }
+`;
+
+const FETCH_COLLECTION_RULE_SUBJECTS_QUERY = `
+  query getCollectionRuleSubjects($collectionId: ID!, $first: Int!, $after: String, $includeMetafields: Boolean!, $metafieldKeys: [String!]) {
+    collection(id: $collectionId) {
+      products(first: $first, after: $after) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        nodes {
+          ...RuleSubjectFields
+        }
+      }
+    }
+  }
+  ${RULE_SUBJECT_FIELDS}
+`;
+
+const FETCH_SHOP_RULE_SUBJECTS_QUERY = `
+  query getShopRuleSubjects($first: Int!, $after: String, $includeMetafields: Boolean!, $metafieldKeys: [String!]) {
+    products(first: $first, after: $after) {
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      nodes {
+        ...RuleSubjectFields
+      }
+    }
+  }
+  ${RULE_SUBJECT_FIELDS}
+`;
+
+type TitledRuleSubject = RuleSubject & { title: string };
+
+function toRuleSubject(node: any): TitledRuleSubject {
+  return {
+    title: node.title,
+    tags: node.tags || [],
+    vendor: node.vendor || '',
+    productType: node.productType || '',
+    createdAt: node.createdAt,
+    minPrice: Number(node.priceRangeV2?.minVariantPrice?.amount || 0),
+    metafields: toMetafieldMap(node.metafields?.nodes),
+  };
+}
+
+/**
+ * Fetches the rule-relevant fields of every product in a collection,
+ * or of the first SHOP_SAMPLE_SIZE products of the shop when collectionId is null
+ */
+export async function fetchRuleSubjects(
+  admin: AdminApiContext,
+  collectionId: string | null,
+  metafieldKeys: string[] = []
+): Promise<{ subjects: TitledRuleSubject[]; sampled: boolean }> {
+  const metafieldVariables = { includeMetafields: metafieldKeys.length > 0, metafieldKeys };
+  const pageSize = metafieldKeys.length > 0 ? METAFIELD_RULE_SUBJECTS_PAGE_SIZE : RULE_SUBJECTS_PAGE_SIZE;
+  const subjects: TitledRuleSubject[] = [];
+  let hasNextPage = true;
+  let cursor: string | null = null;
+
+  while (hasNextPage) {
+    const response = collectionId
+      ? await admin.graphql(FETCH_COLLECTION_RULE_SUBJECTS_QUERY, {
+        variables: { collectionId, first: pageSize, after: cursor, ...metafieldVariables },
+      })
+      : await admin.graphql(FETCH_SHOP_RULE_SUBJECTS_QUERY, {
+        variables: { first: Math.min(pageSize, SHOP_SAMPLE_SIZE - subjects.length), after: cursor, ...metafieldVariables },
+      });
+    const data: any = await response.json();
+
+    if (data.errors) {
+      console.error('❌ GraphQL errors fetching products for rules:', data.errors);
+      throw new Error(`GraphQL error: ${data.errors[0]?.message}`);
+    }
+
+    const products = collectionId ? data.data?.collection?.products : data.data?.products;
+    if (!products) {
+      if (!collectionId) break;
+      throw new Error(`Collection not found: ${collectionId}`);
+    }
+
+    subjects.push(...products.nodes.map(toRuleSubject));
+    hasNextPage = products.pageInfo.hasNextPage;
+    cursor = products.pageInfo.endCursor;
+
+    // The shop-wide count stops at its sample size
+    if (!collectionId && subjects.length >= SHOP_SAMPLE_SIZE) {
+      return { subjects, sampled: hasNextPage };
+    }
+  }
+
+  return { subjects, sampled: false };
+}
+
+/**
+ * Counts how many products of a collection (or a sample of the shop) a rule set matches
+ */
+export async function countRuleMatches(
+  admin: AdminApiContext,
+  ruleSet: ExclusionRuleSet,
+  collectionId: string | null
+): Promise<RuleMatchCount> {
+  const { subjects, sampled } = await fetchRuleSubjects(admin, collectionId, getRuleMetafieldKeys([ruleSet]));
+  const now = new Date();
+  const matches = subjects.filter(subject => evaluateRuleSet(ruleSet, subject, now));
+
+  return {
+    matched: matches.length,
+    total: subjects.length,
+    sampled,
+    examples: matches.slice(0, 5).map(subject => subject.title),
+  };
+}
+
+// CollectionSetting column holding each kind of rule set
+const RULE_SET_COLUMNS: Record<RuleKind, 'exclusionRules' | 'pushDownRules' | 'boostRules'> = {
+  exclude: 'exclusionRules',
+  push_down: 'pushDownRules',
+  boost: 'boostRules',
+};
+
+export type CollectionRuleSets = Record<RuleKind, ExclusionRuleSet>;
+
+// Everything the collection's sorting rules page edits
+export interface CollectionSortingRules {
+  ruleSets: CollectionRuleSets;
+  secondarySort: SecondarySortConfig;
+  newArrivalGraceDays: number; // 0 = off
+  restockBoostHours: number; // 0 = off
+  outOfStockAction: OutOfStockActionConfig;
+}
+
+/**
+ * Loads a collection's keep-in-place, push-down and boost rules, its in-tier order,
+ * grace period, restock boost and out-of-stock action (empty/off if none were saved)
+ */
+export async function getCollectionSortingRules(shop: string, collectionId: string): Promise<CollectionSortingRules> {
+  const setting = await db.collectionSetting.findUnique({
+    where: { shop_collectionId: { shop, collectionId } },
+    select: {
+      exclusionRules: true,
+      pushDownRules: true,
+      boostRules: true,
+      secondarySort: true,
+      newArrivalGraceDays: true,
+      restockBoostHours: true,
+      outOfStockAction: true,
+    },
+  });
+
+  return {
+    ruleSets: {
+      exclude: parseRuleSet(setting?.exclusionRules),
+      push_down: parseRuleSet(setting?.pushDownRules),
+      boost: parseRuleSet(setting?.boostRules),
+    },
+    secondarySort: parseSecondarySort(setting?.secondarySort),
+    newArrivalGraceDays: setting?.newArrivalGraceDays || 0,
+    restockBoostHours: setting?.restockBoostHours || 0,
+    outOfStockAction: parseOutOfStockAction(setting?.outOfStockAction),
+  };
+}
+
+/**
+ * Saves a collection's sorting rules, creating a disabled setting if the collection has none yet
+ * Returns whether push down is enabled, i.e. whether a re-sort should follow
+ */
+export async function saveCollectionSortingRules(
+  shop: string,
+  collectionId: string,
+  rules: CollectionSortingRules
+): Promise<{ enabled: boolean }> {
+  const data = {
+    ...Object.fromEntries(RULE_KINDS.map(kind => [RULE_SET_COLUMNS[kind], toJsonObject(compactRuleSet(rules.ruleSets[kind]))])),
+    secondarySort: toJsonObject(parseSecondarySort(rules.secondarySort)),
+    newArrivalGraceDays: Math.max(0, Math.floor(rules.newArrivalGraceDays) || 0),
+    restockBoostHours: Math.max(0, Math.floor(rules.restockBoostHours) || 0),
+    outOfStockAction: toJsonObject(parseOutOfStockAction(rules.outOfStockAction)),
+  };
+
+  const setting = await db.collectionSetting.upsert({
+    where: { shop_collectionId: { shop, collectionId } },
+    update: data,
+    create: { shop, collectionId, sortType: 'bestsellers asc', enabled: false, ...data },
+  });
+
+  console.log(`📐 Saved sorting rules for ${collectionId}`);
+  return { enabled: setting.enabled };
+}
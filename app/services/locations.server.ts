@@ -0,0 +1,62 @@
+// SHOP LOCATIONS SERVICE
+// Lists the shop's inventory locations so merchants can choose which ones count towards stock
+
+import type { AdminApiContext } from '@shopify/shopify-app-remix/server';
+
+export interface ShopLocation {
+  id: string;
+  name: string;
+  isActive: boolean;
+  fulfillsOnlineOrders: boolean;
+}
+
+// GraphQL query to list every location of the shop
+const FETCH_LOCATIONS_QUERY = `
+  query getLocations($first: Int!, $after: String) {
+    locations(first: $first, after: $after, includeInactive: true) {
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      edges {
+        node {
+          id
+          name
+          isActive
+          fulfillsOnlineOrders
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Fetches all of the shop's locations, active ones first
+ */
+export async function fetchShopLocations(admin: AdminApiContext): Promise<ShopLocation[]> {
+  const locations: ShopLocation[] = [];
+  let hasNextPage = true;
+  let cursor: string | null = null;
+
+  while (hasNextPage) {
+    const response = await admin.graphql(FETCH_LOCATIONS_QUERY, {
+      variables: { first: 250, after: cursor },
+    });
+
+    const data: any = await response.json();
+
+    if (data.errors) {
+      console.error('❌ GraphQL errors fetching locations:', data.errors);
+      throw new Error(`GraphQL error: ${data.errors[0]?.message}`);
+    }
+
+    const page = data.data?.locations;
+    if (!page) break;
+
+    locations.push(...page.edges.map((edge: any) => edge.node));
+    hasNextPage = page.pageInfo.hasNextPage;
+    cursor = page.pageInfo.endCursor;
+  }
+
+  return locations.sort((a, b) => Number(b.isActive) - Number(a.isActive));
+}
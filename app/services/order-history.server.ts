@@ -0,0 +1,149 @@
+// ORDER HISTORY SERVICE
+// Keeps the last few orderings applied to each collection (CollectionOrderVersion table)
+// and rolls a collection back to any of them through the normal reorder path
+
+import type { AdminApiContext } from '@shopify/shopify-app-remix/server';
+import type { Prisma } from '@prisma/client';
+import db from '../db.server';
+import { fetchCollectionManualOrder, reorderCollectionProducts } from './collection-sorting.server';
+import { mergeSavedOrder } from './reorder-moves.server';
+import type { SortJobTrigger } from './sort-queue.server';
+import type { TierCounts } from '../utils/sort-tiers';
+import { isUniqueConstraintError } from '../utils/prisma-errors';
+
+// What caused a reorder - sort job triggers plus the ways a merchant can undo one
+export type OrderTrigger = SortJobTrigger | 'restore' | 'rollback';
+
+// Versions kept per collection - older ones are pruned when a new one is recorded
+export const ORDER_HISTORY_LIMIT = 20;
+
+// Attempts at claiming the next version number when concurrent re-sorts of a collection take it first
+const RECORD_VERSION_ATTEMPTS = 5;
+
+export interface OrderVersionInput {
+  shop: string;
+  collectionId: string;
+  trigger: OrderTrigger;
+  productIds: string[];
+  movesCount: number;
+  settings?: Prisma.InputJsonObject; // CollectionSetting fields used to compute the order
+  tierCounts?: TierCounts;
+}
+
+/**
+ * Records an ordering that was just applied to a collection and prunes old versions
+ */
+export async function recordOrderVersion(input: OrderVersionInput): Promise<number> {
+  const { shop, collectionId } = input;
+
+  // Two re-sorts of the same collection finishing together read the same latest version -
+  // the (shop, collectionId, version) unique constraint rejects the slower one, which retries with the next number
+  let version = 0;
+  for (let attempt = 1; ; attempt++) {
+    const latest = await db.collectionOrderVersion.findFirst({
+      where: { shop, collectionId },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+    version = (latest?.version || 0) + 1;
+
+    try {
+      await db.collectionOrderVersion.create({
+        data: {
+          shop,
+          collectionId,
+          version,
+          trigger: input.trigger,
+          productIds: input.productIds,
+          productCount: input.productIds.length,
+          movesCount: input.movesCount,
+          settings: input.settings ?? undefined,
+          tierCounts: input.tierCounts ?? undefined,
+        },
+      });
+      break;
+    } catch (error) {
+      if (!isUniqueConstraintError(error) || attempt >= RECORD_VERSION_ATTEMPTS) throw error;
+      console.log(`🔁 Order version ${version} of ${collectionId} was just taken, retrying`);
+    }
+  }
+
+  await db.collectionOrderVersion.deleteMany({
+    where: { shop, collectionId, version: { lte: version - ORDER_HISTORY_LIMIT } },
+  });
+
+  console.log(`🗂️ Recorded order version ${version} for ${collectionId} (${input.trigger})`);
+  return version;
+}
+
+/**
+ * Remembers when the app last finished reordering a collection,
+ * so the collections/update webhooks its reorder fired can be told apart from the merchant's edits
+ */
+export async function recordAppReorder(shop: string, collectionId: string): Promise<void> {
+  await db.collectionSetting.updateMany({
+    where: { shop, collectionId },
+    data: { appReorderedAt: new Date() },
+  });
+}
+
+/**
+ * Whether a collection update is the app's own reorder - it happened at or before the app's last reorder finished
+ */
+export async function isAppCollectionUpdate(shop: string, collectionId: string, updatedAt: Date): Promise<boolean> {
+  const setting = await db.collectionSetting.findUnique({
+    where: { shop_collectionId: { shop, collectionId } },
+    select: { appReorderedAt: true },
+  });
+  return !!setting?.appReorderedAt && updatedAt.getTime() <= setting.appReorderedAt.getTime();
+}
+
+/**
+ * Lists a collection's recorded orderings, newest first
+ */
+export async function getOrderHistory(shop: string, collectionId: string) {
+  return db.collectionOrderVersion.findMany({
+    where: { shop, collectionId },
+    orderBy: { version: 'desc' },
+    take: ORDER_HISTORY_LIMIT,
+  });
+}
+
+/**
+ * Puts a collection back in the order of one of its recorded versions
+ * The rollback itself is recorded as a new version so it can be undone too
+ */
+export async function rollbackToVersion(
+  admin: AdminApiContext,
+  shop: string,
+  versionId: string
+): Promise<{ success: boolean; version?: number; error?: string }> {
+  const target = await db.collectionOrderVersion.findFirst({
+    where: { id: versionId, shop },
+  });
+
+  if (!target) {
+    return { success: false, error: 'Order version not found' };
+  }
+
+  const currentIds = await fetchCollectionManualOrder(admin, target.collectionId);
+  const desiredIds = mergeSavedOrder(target.productIds, currentIds);
+
+  const result = await reorderCollectionProducts(admin, target.collectionId, desiredIds, 'manual asc', 'incremental');
+  if (!result.success) {
+    return { success: false, error: result.error };
+  }
+  await recordAppReorder(shop, target.collectionId);
+
+  const version = await recordOrderVersion({
+    shop,
+    collectionId: target.collectionId,
+    trigger: 'rollback',
+    productIds: desiredIds,
+    movesCount: result.movesCount || 0,
+    settings: { rolledBackTo: target.version },
+  });
+
+  console.log(`⏪ Rolled ${target.collectionId} back to version ${target.version}`);
+  return { success: true, version };
+}
@@ -0,0 +1,139 @@
+// ORIGINAL ORDER SERVICE
+// Snapshots a collection's sort order and product order before push down first reorders it,
+// so the merchant can go back to it when push down is disabled
+
+import type { AdminApiContext } from '@shopify/shopify-app-remix/server';
+import db from '../db.server';
+import {
+  fetchCollectionCurrentOrder,
+  fetchCollectionManualOrder,
+  reorderCollectionProducts,
+  updateCollectionSortOrder,
+} from './collection-sorting.server';
+import { mergeSavedOrder } from './reorder-moves.server';
+import { recordOrderVersion } from './order-history.server';
+
+// How a collection is restored:
+// - sort_order: switch back to the automatic sort order it had (e.g. Best selling)
+// - manual_order: put the products back in the exact order they were in
+export type RestoreMode = 'sort_order' | 'manual_order';
+
+/**
+ * Saves the collection's current sort order and product order unless a snapshot already exists
+ * Only the first enable is captured - later enables would otherwise snapshot our own order
+ */
+export async function snapshotOriginalOrder(
+  admin: AdminApiContext,
+  shop: string,
+  collectionId: string
+): Promise<void> {
+  const existing = await db.originalCollectionOrder.findUnique({
+    where: { shop_collectionId: { shop, collectionId } },
+  });
+  if (existing) return;
+
+  const current = await fetchCollectionCurrentOrder(admin, collectionId);
+
+  await db.originalCollectionOrder.create({
+    data: { shop, collectionId, sortOrder: current.sortOrder, productIds: current.productIds },
+  });
+
+  console.log(`📸 Saved original ${current.sortOrder} order of ${current.productIds.length} products for ${collectionId}`);
+}
+
+/**
+ * Returns the saved original sort order of each collection that has a snapshot
+ */
+export async function getOriginalSortOrders(shop: string): Promise<{ collectionId: string; sortOrder: string }[]> {
+  return db.originalCollectionOrder.findMany({
+    where: { shop },
+    select: { collectionId: true, sortOrder: true },
+  });
+}
+
+/**
+ * Restores a collection from its snapshot and removes the snapshot afterwards
+ * Products added since the snapshot keep their current relative order after the original ones
+ */
+export async function restoreOriginalOrder(
+  admin: AdminApiContext,
+  shop: string,
+  collectionId: string,
+  mode: RestoreMode
+): Promise<{ success: boolean; error?: string }> {
+  const snapshot = await db.originalCollectionOrder.findUnique({
+    where: { shop_collectionId: { shop, collectionId } },
+  });
+
+  if (!snapshot) {
+    return { success: false, error: 'No original order was saved for this collection' };
+  }
+
+  if (mode === 'sort_order' && snapshot.sortOrder === 'MANUAL') {
+    return { success: false, error: 'This collection was sorted manually - restore the saved manual order instead' };
+  }
+
+  // Make sure no queued re-sort puts our order back afterwards - and switch push down back on if the restore fails,
+  // so a failed restore doesn't leave the collection half restored and no longer kept in order
+  const setting = await db.collectionSetting.findUnique({
+    where: { shop_collectionId: { shop, collectionId } },
+    select: { enabled: true },
+  });
+  await db.collectionSetting.updateMany({
+    where: { shop, collectionId },
+    data: { enabled: false },
+  });
+
+  let result: { success: boolean; error?: string };
+  try {
+    result = await applyOriginalOrder(admin, shop, collectionId, mode, snapshot);
+  } catch (error) {
+    result = { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  if (!result.success) {
+    if (setting?.enabled) {
+      await db.collectionSetting.updateMany({
+        where: { shop, collectionId },
+        data: { enabled: true },
+      });
+    }
+    console.error(`❌ Failed to restore original order of ${collectionId}:`, result.error);
+    return { success: false, error: result.error };
+  }
+
+  await db.originalCollectionOrder.delete({ where: { id: snapshot.id } });
+  console.log(`↩️ Restored original order of ${collectionId} (${mode})`);
+
+  return { success: true };
+}
+
+/**
+ * Puts the snapshot's sort order or product order back on the collection
+ */
+async function applyOriginalOrder(
+  admin: AdminApiContext,
+  shop: string,
+  collectionId: string,
+  mode: RestoreMode,
+  snapshot: { sortOrder: string; productIds: string[] }
+): Promise<{ success: boolean; error?: string }> {
+  if (mode === 'sort_order') {
+    return updateCollectionSortOrder(admin, collectionId, snapshot.sortOrder);
+  }
+
+  const currentIds = await fetchCollectionManualOrder(admin, collectionId);
+  const desiredIds = mergeSavedOrder(snapshot.productIds, currentIds);
+
+  const result = await reorderCollectionProducts(admin, collectionId, desiredIds, 'manual asc', 'incremental');
+  if (!result.success) return { success: false, error: result.error };
+
+  await recordOrderVersion({
+    shop,
+    collectionId,
+    trigger: 'restore',
+    productIds: desiredIds,
+    movesCount: result.movesCount || 0,
+  });
+  return { success: true };
+}
@@ -0,0 +1,243 @@
+// OUT-OF-STOCK ACTIONS SERVICE
+// Follow-up actions for products that have been out of stock longer than a collection's threshold:
+// add a tag (e.g. "oos-30d"), remove them from the collection or move them to a "Sold Out" collection
+// The tag comes off again once the product is back in stock
+// Runs after a re-sort, on the products the sort put in the out_of_stock tier
+
+import type { AdminApiContext } from '@shopify/shopify-app-remix/server';
+import { fetchCollectionSortInfo } from './collection-sorting.server';
+import type { ProductForSorting, SortResult } from './collection-sorting.server';
+import { getDaysOutOfStock, getOutOfStockSince, recordAppProductUpdates } from './stock-state.server';
+import { changesCollectionProducts, getOutOfStockTag, isOutOfStockActionActive } from '../utils/out-of-stock-actions';
+import type { OutOfStockActionConfig, OutOfStockActionKind } from '../utils/out-of-stock-actions';
+
+// collectionAddProducts and collectionRemoveProducts take at most this many products per call
+const MAX_PRODUCTS_PER_MUTATION = 250;
+
+// Both tag mutations return the product's new updatedAt, which identifies the products/update webhook they fire
+const TAGS_ADD_MUTATION = `
+  mutation addOutOfStockTag($id: ID!, $tags: [String!]!) {
+    tagsAdd(id: $id, tags: $tags) {
+      node {
+        ... on Product {
+          updatedAt
+        }
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const TAGS_REMOVE_MUTATION = `
+  mutation removeOutOfStockTag($id: ID!, $tags: [String!]!) {
+    tagsRemove(id: $id, tags: $tags) {
+      node {
+        ... on Product {
+          updatedAt
+        }
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const COLLECTION_ADD_PRODUCTS_MUTATION = `
+  mutation addProductsToCollection($id: ID!, $productIds: [ID!]!) {
+    collectionAddProducts(id: $id, productIds: $productIds) {
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const COLLECTION_REMOVE_PRODUCTS_MUTATION = `
+  mutation removeProductsFromCollection($id: ID!, $productIds: [ID!]!) {
+    collectionRemoveProducts(id: $id, productIds: $productIds) {
+      job {
+        id
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+export interface OutOfStockActionResult {
+  success: boolean;
+  action?: OutOfStockActionKind;
+  productIds: string[]; // Products the action was applied to
+  untaggedProductIds?: string[]; // Products back in stock the tag was removed from
+  error?: string;
+}
+
+/**
+ * Runs a mutation and returns its payload, throwing on GraphQL or user errors
+ */
+async function runMutation(
+  admin: AdminApiContext,
+  mutation: string,
+  variables: Record<string, unknown>,
+  resultKey: string
+): Promise<any> {
+  const response = await admin.graphql(mutation, { variables });
+  const data: any = await response.json();
+
+  if (data.errors) {
+    console.error(`❌ GraphQL errors running ${resultKey}:`, data.errors);
+    throw new Error(`GraphQL error: ${data.errors[0]?.message}`);
+  }
+
+  const userErrors = data.data?.[resultKey]?.userErrors || [];
+  if (userErrors.length > 0) {
+    console.error(`❌ User errors running ${resultKey}:`, userErrors);
+    throw new Error(`${resultKey} error: ${userErrors[0]?.message}`);
+  }
+
+  return data.data?.[resultKey];
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+  return chunks;
+}
+
+/**
+ * Checks that an out-of-stock action can run on the collection, returning why not if it can't
+ * Products can't be removed from or added to smart collections - their conditions decide what they contain
+ */
+export async function validateOutOfStockAction(
+  admin: AdminApiContext,
+  collectionId: string,
+  config: OutOfStockActionConfig
+): Promise<string | null> {
+  if (!isOutOfStockActionActive(config) || !changesCollectionProducts(config.action)) return null;
+
+  if (config.action === 'move' && config.targetCollectionId === collectionId) {
+    return 'Products cannot be moved into the same collection';
+  }
+
+  const source = await fetchCollectionSortInfo(admin, collectionId);
+  if (source.isSmart) {
+    return 'Products cannot be removed from a smart collection - its conditions decide which products it contains';
+  }
+
+  if (config.action === 'move' && config.targetCollectionId) {
+    const target = await fetchCollectionSortInfo(admin, config.targetCollectionId);
+    if (target.isSmart) {
+      return `Products cannot be moved into "${target.title}" - it is a smart collection, so its conditions decide which products it contains`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Products of the out_of_stock tier that have been out of stock for at least `days` days
+ * Products that are only unavailable in the collection's market or channel don't count
+ */
+export function findLongOutOfStockProducts(
+  sortResult: SortResult,
+  outOfStockSince: Record<string, Date>,
+  days: number,
+  now: Date = new Date()
+): ProductForSorting[] {
+  const outOfStockTier = sortResult.tiers.find(tier => tier.name === 'out_of_stock');
+
+  return (outOfStockTier?.products || []).filter(product =>
+    sortResult.placements[product.id]?.reason === 'out_of_stock'
+    && outOfStockSince[product.id]
+    && getDaysOutOfStock(outOfStockSince[product.id], now) >= days
+  );
+}
+
+/**
+ * Applies a collection's out-of-stock action to the products that are past its threshold
+ * Failures are reported in the result - the re-sort itself has already been applied
+ */
+export async function applyOutOfStockAction(
+  admin: AdminApiContext,
+  shop: string,
+  collectionId: string,
+  sortResult: SortResult,
+  config: OutOfStockActionConfig
+): Promise<OutOfStockActionResult> {
+  if (!isOutOfStockActionActive(config)) {
+    return { success: true, productIds: [] };
+  }
+
+  if (config.action === 'move' && config.targetCollectionId === collectionId) {
+    return { success: false, action: config.action, productIds: [], error: 'Products cannot be moved into the same collection' };
+  }
+
+  try {
+    const outOfStockTier = sortResult.tiers.find(tier => tier.name === 'out_of_stock');
+    const outOfStockSince = await getOutOfStockSince(shop, (outOfStockTier?.products || []).map(product => product.id));
+    let products = findLongOutOfStockProducts(sortResult, outOfStockSince, config.days);
+    let untaggedProductIds: string[] = [];
+
+    if (config.action === 'tag') {
+      const tag = getOutOfStockTag(config);
+      const hasTag = (product: ProductForSorting) => product.tags.some(existing => existing.toLowerCase() === tag.toLowerCase());
+      const appUpdates: { productId: string; updatedAt: Date }[] = [];
+      products = products.filter(product => !hasTag(product));
+
+      // Tagging changes nothing about the order, so the webhooks these fire are recognised and don't queue re-sorts
+      try {
+        for (const product of products) {
+          const result = await runMutation(admin, TAGS_ADD_MUTATION, { id: product.id, tags: [tag] }, 'tagsAdd');
+          if (result?.node?.updatedAt) appUpdates.push({ productId: product.id, updatedAt: new Date(result.node.updatedAt) });
+        }
+
+        const restocked = sortResult.tiers
+          .flatMap(tier => tier.products)
+          .filter(product => product.isInStock && hasTag(product));
+        for (const product of restocked) {
+          const result = await runMutation(admin, TAGS_REMOVE_MUTATION, { id: product.id, tags: [tag] }, 'tagsRemove');
+          if (result?.node?.updatedAt) appUpdates.push({ productId: product.id, updatedAt: new Date(result.node.updatedAt) });
+        }
+        untaggedProductIds = restocked.map(product => product.id);
+      } finally {
+        await recordAppProductUpdates(shop, appUpdates);
+      }
+
+      if (untaggedProductIds.length > 0) {
+        console.log(`🏷️ Removed "${tag}" from ${untaggedProductIds.length} restocked product(s) in ${collectionId}`);
+      }
+    } else {
+      const productIds = products.map(product => product.id);
+
+      for (const batch of chunk(productIds, MAX_PRODUCTS_PER_MUTATION)) {
+        if (config.action === 'move') {
+          await runMutation(admin, COLLECTION_ADD_PRODUCTS_MUTATION, { id: config.targetCollectionId, productIds: batch }, 'collectionAddProducts');
+        }
+        await runMutation(admin, COLLECTION_REMOVE_PRODUCTS_MUTATION, { id: collectionId, productIds: batch }, 'collectionRemoveProducts');
+      }
+    }
+
+    if (products.length > 0) {
+      console.log(`🏷️ Applied out-of-stock action "${config.action}" to ${products.length} product(s) in ${collectionId}`);
+    }
+    return { success: true, action: config.action, productIds: products.map(product => product.id), untaggedProductIds };
+  } catch (error) {
+    console.error(`❌ Error applying out-of-stock action to ${collectionId}:`, error);
+    return {
+      success: false,
+      action: config.action,
+      productIds: [],
+      error: `Failed to apply out-of-stock action: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
@@ -0,0 +1,51 @@
+// PINNED PRODUCTS SERVICE
+// Products a merchant fixed to a slot in a collection (PinnedProduct table)
+// Pinned products keep their slot on every sort; push down only reorders the rest
+
+import db from '../db.server';
+import type { ProductPin } from './collection-sorting.server';
+
+/**
+ * Returns a collection's pins, lowest slot first
+ */
+export async function getPinnedProducts(shop: string, collectionId: string): Promise<ProductPin[]> {
+  const pins = await db.pinnedProduct.findMany({
+    where: { shop, collectionId },
+    orderBy: { position: 'asc' },
+    select: { productId: true, position: true },
+  });
+
+  return pins;
+}
+
+/**
+ * Pins a product to a slot - moves the product's existing pin, and
+ * unpins whichever product held that slot before
+ */
+export async function pinProduct(
+  shop: string,
+  collectionId: string,
+  productId: string,
+  position: number
+): Promise<void> {
+  const slot = Math.max(1, Math.floor(position) || 1);
+
+  await db.$transaction([
+    db.pinnedProduct.deleteMany({
+      where: { shop, collectionId, OR: [{ productId }, { position: slot }] },
+    }),
+    db.pinnedProduct.create({
+      data: { shop, collectionId, productId, position: slot },
+    }),
+  ]);
+
+  console.log(`📌 Pinned ${productId} to slot ${slot} in ${collectionId}`);
+}
+
+/**
+ * Removes a product's pin so push down sorts it like any other product
+ */
+export async function unpinProduct(shop: string, collectionId: string, productId: string): Promise<void> {
+  await db.pinnedProduct.deleteMany({ where: { shop, collectionId, productId } });
+  console.log(`📍 Unpinned ${productId} in ${collectionId}`);
+}
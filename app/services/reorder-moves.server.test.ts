@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import {
+  chunkMoves,
+  computeMinimalMoves,
+  mergeSavedOrder,
+  type ReorderMove,
+} from './reorder-moves.server';
+
+/**
+ * Applies moves one after another the way collectionReorderProducts does
+ */
+function applyMoves(ids: string[], moves: ReorderMove[]): string[] {
+  const result = [...ids];
+  for (const move of moves) {
+    result.splice(result.indexOf(move.id), 1);
+    result.splice(Number(move.newPosition), 0, move.id);
+  }
+  return result;
+}
+
+describe('computeMinimalMoves', () => {
+  it('needs no moves when the order is already right', () => {
+    const ids = ['a', 'b', 'c', 'd'];
+    expect(computeMinimalMoves(ids, [...ids])).toEqual([]);
+  });
+
+  it('handles an empty collection', () => {
+    expect(computeMinimalMoves([], [])).toEqual([]);
+  });
+
+  it('moves every product but one to reverse the order', () => {
+    const current = ['a', 'b', 'c', 'd', 'e'];
+    const desired = [...current].reverse();
+    const moves = computeMinimalMoves(current, desired)!;
+
+    expect(moves).toHaveLength(current.length - 1);
+    expect(applyMoves(current, moves)).toEqual(desired);
+  });
+
+  it('moves a single product pushed to the bottom in one move', () => {
+    const current = ['a', 'b', 'c', 'd', 'e'];
+    const desired = ['a', 'c', 'd', 'e', 'b'];
+
+    expect(computeMinimalMoves(current, desired)).toEqual([{ id: 'b', newPosition: '4' }]);
+  });
+
+  it('moves a single product brought to the top in one move', () => {
+    const current = ['a', 'b', 'c', 'd', 'e'];
+    const desired = ['d', 'a', 'b', 'c', 'e'];
+
+    expect(computeMinimalMoves(current, desired)).toEqual([{ id: 'd', newPosition: '0' }]);
+  });
+
+  it('produces the desired order for a shuffled collection', () => {
+    const current = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+    const desired = ['c', 'a', 'h', 'b', 'e', 'd', 'g', 'f'];
+    const moves = computeMinimalMoves(current, desired)!;
+
+    expect(applyMoves(current, moves)).toEqual(desired);
+    expect(moves.length).toBeLessThan(current.length);
+  });
+
+  it('returns null when a product was added', () => {
+    expect(computeMinimalMoves(['a', 'b'], ['a', 'b', 'c'])).toBeNull();
+  });
+
+  it('returns null when a product was removed', () => {
+    expect(computeMinimalMoves(['a', 'b', 'c'], ['a', 'c'])).toBeNull();
+  });
+
+  it('returns null when a product was swapped for another', () => {
+    expect(computeMinimalMoves(['a', 'b', 'c'], ['a', 'b', 'x'])).toBeNull();
+  });
+
+  it('returns null when the current order lists a product twice', () => {
+    expect(computeMinimalMoves(['a', 'a', 'b'], ['a', 'b', 'a'])).toBeNull();
+  });
+});
+
+describe('chunkMoves', () => {
+  const moves = (count: number): ReorderMove[] =>
+    Array.from({ length: count }, (_, index) => ({ id: `p${index}`, newPosition: `${index}` }));
+
+  it('returns no batches for no moves', () => {
+    expect(chunkMoves([])).toEqual([]);
+  });
+
+  it('keeps a batch within the limit whole', () => {
+    expect(chunkMoves(moves(250))).toHaveLength(1);
+  });
+
+  it('splits moves into ordered batches of at most the given size', () => {
+    const all = moves(7);
+    const batches = chunkMoves(all, 3);
+
+    expect(batches.map(batch => batch.length)).toEqual([3, 3, 1]);
+    expect(batches.flat()).toEqual(all);
+  });
+});
+
+describe('mergeSavedOrder', () => {
+  it('restores the saved order when the products are unchanged', () => {
+    expect(mergeSavedOrder(['c', 'a', 'b'], ['a', 'b', 'c'])).toEqual(['c', 'a', 'b']);
+  });
+
+  it('drops products that left the collection', () => {
+    expect(mergeSavedOrder(['c', 'a', 'b'], ['a', 'c'])).toEqual(['c', 'a']);
+  });
+
+  it('puts products added since after the saved ones, in their current order', () => {
+    expect(mergeSavedOrder(['b', 'a'], ['y', 'a', 'x', 'b'])).toEqual(['b', 'a', 'y', 'x']);
+  });
+
+  it('handles products added and removed together', () => {
+    expect(mergeSavedOrder(['c', 'a', 'b'], ['d', 'b', 'c'])).toEqual(['c', 'b', 'd']);
+  });
+});
@@ -0,0 +1,130 @@
+// REORDER MOVE PLANNING
+// Works out which collectionReorderProducts moves are needed to turn one product order into another
+// Pure functions only - no Shopify calls - so the planning can be checked in isolation
+
+export interface ReorderMove {
+  id: string;
+  newPosition: string; // Shopify expects string position
+}
+
+// collectionReorderProducts rejects calls with more moves than this
+export const MAX_MOVES_PER_REORDER = 250;
+
+/**
+ * Builds a move for every product (the original full-rewrite behaviour)
+ */
+export function buildFullMoves(desiredIds: string[]): ReorderMove[] {
+  return desiredIds.map((id, newIndex) => ({
+    id,
+    newPosition: `${newIndex}`,
+  }));
+}
+
+/**
+ * Finds the indexes (into `sequence`) of one longest strictly increasing subsequence
+ * Standard patience-sorting approach, O(n log n)
+ */
+export function longestIncreasingSubsequence(sequence: number[]): number[] {
+  const tailIndexes: number[] = []; // tailIndexes[k] = index of the smallest tail of an increasing run of length k+1
+  const previous: number[] = new Array(sequence.length).fill(-1);
+
+  for (let i = 0; i < sequence.length; i++) {
+    let low = 0;
+    let high = tailIndexes.length;
+
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (sequence[tailIndexes[mid]] < sequence[i]) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    if (low > 0) previous[i] = tailIndexes[low - 1];
+    tailIndexes[low] = i;
+  }
+
+  const result: number[] = [];
+  let cursor = tailIndexes.length > 0 ? tailIndexes[tailIndexes.length - 1] : -1;
+  while (cursor !== -1) {
+    result.push(cursor);
+    cursor = previous[cursor];
+  }
+
+  return result.reverse();
+}
+
+/**
+ * Computes the smallest set of moves that turns `currentIds` into `desiredIds`
+ *
+ * Products that already sit in the right relative order (the longest increasing
+ * subsequence of their current positions) stay put; every other product is moved
+ * directly after its desired predecessor. Moves are applied by Shopify one after
+ * another, so positions are calculated against a simulated list as we go.
+ *
+ * Returns null when the two lists don't contain the same products - the caller
+ * should fall back to a full rewrite in that case.
+ */
+export function computeMinimalMoves(
+  currentIds: string[],
+  desiredIds: string[]
+): ReorderMove[] | null {
+  if (currentIds.length !== desiredIds.length) return null;
+
+  const currentIndex = new Map<string, number>();
+  currentIds.forEach((id, index) => currentIndex.set(id, index));
+  if (currentIndex.size !== currentIds.length) return null;
+
+  const positions: number[] = [];
+  for (const id of desiredIds) {
+    const position = currentIndex.get(id);
+    if (position === undefined) return null;
+    positions.push(position);
+  }
+
+  // Products in the LIS keep their relative order and never need to move
+  const stationary = new Set<string>(
+    longestIncreasingSubsequence(positions).map(desiredIndex => desiredIds[desiredIndex])
+  );
+
+  const simulated = [...currentIds];
+  const moves: ReorderMove[] = [];
+
+  for (let i = 0; i < desiredIds.length; i++) {
+    const id = desiredIds[i];
+    if (stationary.has(id)) continue;
+
+    simulated.splice(simulated.indexOf(id), 1);
+    const newIndex = i === 0 ? 0 : simulated.indexOf(desiredIds[i - 1]) + 1;
+    simulated.splice(newIndex, 0, id);
+
+    moves.push({ id, newPosition: `${newIndex}` });
+  }
+
+  return moves;
+}
+
+/**
+ * Splits moves into consecutive batches of at most `size` moves
+ * Order is preserved - each batch must be applied after the previous one
+ */
+export function chunkMoves(moves: ReorderMove[], size: number = MAX_MOVES_PER_REORDER): ReorderMove[][] {
+  const batches: ReorderMove[][] = [];
+  for (let i = 0; i < moves.length; i += size) {
+    batches.push(moves.slice(i, i + size));
+  }
+  return batches;
+}
+
+/**
+ * Builds the order to restore from a saved list of product ids
+ * Products that left the collection since are dropped; products added since
+ * keep their current relative order after the saved ones
+ */
+export function mergeSavedOrder(savedIds: string[], currentIds: string[]): string[] {
+  const currentSet = new Set(currentIds);
+  const restoredIds = savedIds.filter(id => currentSet.has(id));
+  const restoredSet = new Set(restoredIds);
+  return [...restoredIds, ...currentIds.filter(id => !restoredSet.has(id))];
+}
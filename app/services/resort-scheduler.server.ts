@@ -0,0 +1,143 @@
+// SCHEDULED RE-SORT
+// Periodically queues a re-sort of every enabled collection for every installed shop
+// and keeps a per-shop summary (ScheduledResortRun) of what each run did
+
+import db from '../db.server';
+import { enqueueSortJob } from './sort-queue.server';
+
+export const RESORT_INTERVALS = {
+  hourly: 60 * 60 * 1000,
+  nightly: 24 * 60 * 60 * 1000,
+} as const;
+
+export type ResortInterval = keyof typeof RESORT_INTERVALS;
+
+// Cron invocations don't fire at exactly the same second every time,
+// so a shop counts as due slightly before the full interval has passed
+const DUE_SLACK_MS = 5 * 60 * 1000; // 5 minutes
+
+// A run whose jobs still haven't finished after this long is closed anyway
+const RUN_FINALIZE_TIMEOUT_MS = 6 * 60 * 60 * 1000; // 6 hours
+
+export interface ShopScheduleSummary {
+  shop: string;
+  runId?: string;
+  collectionsQueued: number;
+  skipped?: string;
+}
+
+/**
+ * Reads the interval from RESORT_SCHEDULE_INTERVAL, defaulting to nightly
+ */
+export function getConfiguredInterval(): ResortInterval {
+  const value = process.env.RESORT_SCHEDULE_INTERVAL;
+  return value && Object.hasOwn(RESORT_INTERVALS, value) ? (value as ResortInterval) : 'nightly';
+}
+
+/**
+ * Closes runs whose jobs have all finished and records how many collections
+ * were actually re-sorted, already in order (unchanged), or failed
+ */
+export async function finalizeScheduledRuns(): Promise<number> {
+  const openRuns = await db.scheduledResortRun.findMany({ where: { status: 'running' } });
+  let finalized = 0;
+
+  for (const run of openRuns) {
+    const jobIds = Array.isArray(run.jobIds) ? (run.jobIds as string[]) : [];
+    const jobs = await db.sortJob.findMany({
+      where: { id: { in: jobIds } },
+      select: { status: true, result: true },
+    });
+
+    const stillRunning = jobs.some((job: { status: string }) => job.status === 'pending' || job.status === 'running');
+    const timedOut = Date.now() - run.startedAt.getTime() > RUN_FINALIZE_TIMEOUT_MS;
+    if (stillRunning && !timedOut) continue;
+
+    let resorted = 0;
+    let unchanged = 0;
+    let failed = 0;
+
+    for (const job of jobs as { status: string; result: any }[]) {
+      if (job.status !== 'completed') {
+        failed++;
+      } else if (job.result?.skipped || job.result?.movesCount === 0) {
+        unchanged++;
+      } else {
+        resorted++;
+      }
+    }
+
+    await db.scheduledResortRun.update({
+      where: { id: run.id },
+      data: {
+        status: 'completed',
+        collectionsResorted: resorted,
+        collectionsUnchanged: unchanged,
+        collectionsFailed: failed,
+        completedAt: new Date(),
+      },
+    });
+
+    console.log(`📊 Scheduled re-sort for ${run.shop}: ${resorted} re-sorted, ${unchanged} unchanged, ${failed} failed`);
+    finalized++;
+  }
+
+  return finalized;
+}
+
+/**
+ * Queues a re-sort for every enabled collection of every installed shop that is due
+ * Collections whose order hasn't changed are detected by the job itself
+ * (the incremental reorder finds no moves) and counted as unchanged in the summary
+ */
+export async function runScheduledResort(
+  interval: ResortInterval = getConfiguredInterval()
+): Promise<ShopScheduleSummary[]> {
+  await finalizeScheduledRuns();
+
+  // Installed shops are the ones with an offline session - the worker needs it to call the Admin API
+  const offlineSessions = await db.session.findMany({
+    where: { isOnline: false },
+    select: { shop: true },
+    distinct: ['shop'],
+  });
+
+  const dueBefore = new Date(Date.now() - RESORT_INTERVALS[interval] + DUE_SLACK_MS);
+  const summaries: ShopScheduleSummary[] = [];
+
+  for (const { shop } of offlineSessions as { shop: string }[]) {
+    const lastRun = await db.scheduledResortRun.findFirst({
+      where: { shop },
+      orderBy: { startedAt: 'desc' },
+    });
+
+    if (lastRun && lastRun.startedAt > dueBefore) {
+      summaries.push({ shop, collectionsQueued: 0, skipped: 'not due yet' });
+      continue;
+    }
+
+    const enabledSettings = await db.collectionSetting.findMany({
+      where: { shop, enabled: true },
+      select: { collectionId: true },
+    });
+
+    if (enabledSettings.length === 0) {
+      summaries.push({ shop, collectionsQueued: 0, skipped: 'no enabled collections' });
+      continue;
+    }
+
+    const jobIds: string[] = [];
+    for (const { collectionId } of enabledSettings as { collectionId: string }[]) {
+      jobIds.push(await enqueueSortJob(shop, collectionId, 'schedule'));
+    }
+
+    const run = await db.scheduledResortRun.create({
+      data: { shop, interval, jobIds, collectionsQueued: jobIds.length },
+    });
+
+    console.log(`🗓️ Scheduled re-sort queued ${jobIds.length} collection(s) for ${shop}`);
+    summaries.push({ shop, runId: run.id, collectionsQueued: jobIds.length });
+  }
+
+  return summaries;
+}
@@ -0,0 +1,208 @@
+// SALES CONTEXT SERVICE
+// Lists the markets and sales channels (publications) a collection can be sorted for,
+// and resolves a market to the publication of its catalog and the locations that ship to it
+
+import type { AdminApiContext } from '@shopify/shopify-app-remix/server';
+
+export type SalesContextType = 'market' | 'publication';
+
+export interface SalesContext {
+  id: string; // Market or Publication global id
+  name: string;
+  type: SalesContextType;
+}
+
+// GraphQL query to list markets and sales channels together
+const FETCH_SALES_CONTEXTS_QUERY = `
+  query getSalesContexts {
+    markets(first: 50) {
+      nodes {
+        id
+        name
+        enabled
+      }
+    }
+    publications(first: 50) {
+      nodes {
+        id
+        name
+      }
+    }
+  }
+`;
+
+// GraphQL query to find the publication that controls what a market's buyers can see
+const MARKET_PUBLICATION_QUERY = `
+  query getMarketPublication($id: ID!) {
+    market(id: $id) {
+      id
+      catalogs(first: 1) {
+        nodes {
+          publication {
+            id
+          }
+        }
+      }
+    }
+  }
+`;
+
+// GraphQL query for the countries a market sells to
+const MARKET_COUNTRIES_QUERY = `
+  query getMarketCountries($id: ID!) {
+    market(id: $id) {
+      id
+      regions(first: 250) {
+        nodes {
+          ... on MarketRegionCountry {
+            code
+          }
+        }
+      }
+    }
+  }
+`;
+
+// GraphQL query for the locations of each shipping profile and the countries they ship to
+const FETCH_SHIPPING_LOCATIONS_QUERY = `
+  query getShippingLocations {
+    deliveryProfiles(first: 10) {
+      nodes {
+        profileLocationGroups {
+          locationGroup {
+            locations(first: 50) {
+              nodes {
+                id
+              }
+            }
+          }
+          countriesInAnyZone {
+            country {
+              code {
+                countryCode
+                restOfWorld
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Tells markets and publications apart by their global id
+ */
+export function getSalesContextType(contextId: string): SalesContextType | null {
+  if (contextId.startsWith('gid://shopify/Market/')) return 'market';
+  if (contextId.startsWith('gid://shopify/Publication/')) return 'publication';
+  return null;
+}
+
+/**
+ * Fetches the shop's enabled markets and its sales channel publications
+ */
+export async function fetchSalesContexts(admin: AdminApiContext): Promise<SalesContext[]> {
+  const response = await admin.graphql(FETCH_SALES_CONTEXTS_QUERY);
+  const data: any = await response.json();
+
+  if (data.errors) {
+    console.error('❌ GraphQL errors fetching sales contexts:', data.errors);
+    throw new Error(`GraphQL error: ${data.errors[0]?.message}`);
+  }
+
+  const markets: SalesContext[] = (data.data?.markets?.nodes || [])
+    .filter((market: any) => market.enabled)
+    .map((market: any) => ({ id: market.id, name: market.name, type: 'market' }));
+
+  const publications: SalesContext[] = (data.data?.publications?.nodes || [])
+    .map((publication: any) => ({ id: publication.id, name: publication.name, type: 'publication' }));
+
+  return [...markets, ...publications];
+}
+
+/**
+ * Resolves a collection's sales context to the publication whose visibility should be checked
+ * Publications are used as-is; markets use the publication of their catalog
+ * Returns null when the market has no catalog publication (every product counts as available)
+ */
+export async function resolveSalesContextPublication(
+  admin: AdminApiContext,
+  contextId: string
+): Promise<string | null> {
+  const type = getSalesContextType(contextId);
+  if (type === 'publication') return contextId;
+  if (type !== 'market') return null;
+
+  const response = await admin.graphql(MARKET_PUBLICATION_QUERY, {
+    variables: { id: contextId },
+  });
+
+  const data: any = await response.json();
+
+  if (data.errors) {
+    console.error('❌ GraphQL errors resolving market publication:', data.errors);
+    throw new Error(`GraphQL error: ${data.errors[0]?.message}`);
+  }
+
+  const publicationId = data.data?.market?.catalogs?.nodes?.[0]?.publication?.id || null;
+  if (!publicationId) {
+    console.warn(`⚠️ Market ${contextId} has no catalog publication - availability isn't limited to it`);
+  }
+
+  return publicationId;
+}
+
+/**
+ * Resolves a collection's sales context to the locations whose stock should be counted
+ * Markets use the locations whose shipping zones cover any of the market's countries;
+ * sales channels aren't tied to locations, so they return an empty list (every location counts)
+ */
+export async function resolveSalesContextLocations(
+  admin: AdminApiContext,
+  contextId: string
+): Promise<string[]> {
+  if (getSalesContextType(contextId) !== 'market') return [];
+
+  const marketResponse = await admin.graphql(MARKET_COUNTRIES_QUERY, {
+    variables: { id: contextId },
+  });
+  const marketData: any = await marketResponse.json();
+
+  if (marketData.errors) {
+    console.error('❌ GraphQL errors fetching market countries:', marketData.errors);
+    throw new Error(`GraphQL error: ${marketData.errors[0]?.message}`);
+  }
+
+  const countries = new Set<string>(
+    (marketData.data?.market?.regions?.nodes || [])
+      .map((region: any) => region.code)
+      .filter(Boolean)
+  );
+  if (countries.size === 0) return [];
+
+  const response = await admin.graphql(FETCH_SHIPPING_LOCATIONS_QUERY);
+  const data: any = await response.json();
+
+  if (data.errors) {
+    console.error('❌ GraphQL errors fetching shipping locations:', data.errors);
+    throw new Error(`GraphQL error: ${data.errors[0]?.message}`);
+  }
+
+  const locationIds = new Set<string>();
+  for (const profile of data.data?.deliveryProfiles?.nodes || []) {
+    for (const group of profile.profileLocationGroups || []) {
+      const shipsToMarket = (group.countriesInAnyZone || []).some((zone: any) =>
+        zone.country?.code?.restOfWorld || countries.has(zone.country?.code?.countryCode)
+      );
+      if (!shipsToMarket) continue;
+      (group.locationGroup?.locations?.nodes || []).forEach((location: any) => locationIds.add(location.id));
+    }
+  }
+
+  if (locationIds.size === 0) {
+    console.warn(`⚠️ No location ships to market ${contextId} - stock is counted at every location`);
+  }
+
+  return Array.from(locationIds);
+}
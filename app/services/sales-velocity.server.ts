@@ -0,0 +1,406 @@
+// SALES VELOCITY SERVICE
+// Adds up units sold and revenue per product from recent orders (Orders API, read_orders scope)
+// Totals are cached per product and window (ProductSalesStat) and filled by a background job that carries
+// on across runs, so sorts only ever read the cache instead of walking every order of a large shop
+
+import type { AdminApiContext } from '@shopify/shopify-app-remix/server';
+import db from '../db.server';
+import { unauthenticated } from '../shopify.server';
+import { getSalesSortMetric, parseSalesWindowDays } from '../utils/sales-velocity';
+import { getSortVelocityWindows, parseSecondarySort } from '../utils/secondary-sort';
+import { toJsonObject } from '../utils/json-column';
+
+export interface ProductSales {
+  units: number;
+  revenue: number; // In the shop's currency
+}
+
+// Units and revenue per product id over one window
+export type SalesByProduct = Record<string, ProductSales>;
+
+// Cached totals older than this are recomputed by the aggregation job
+const SALES_STATS_MAX_AGE_MS = 6 * 60 * 60 * 1000; // 6 hours
+
+// A claim older than this is assumed to belong to a crashed runner - runs stop well inside the 60 second function limit
+const STALE_AGGREGATION_MS = 5 * 60 * 1000; // 5 minutes
+
+// A saved run older than this starts over instead of carrying on
+const MAX_RESUMED_RUN_AGE_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+// Pages of orders between saves of a run's progress
+const PAGES_PER_PROGRESS_SAVE = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SalesRefreshSummary {
+  shop: string;
+  windowDays: number;
+  productsCounted?: number;
+  unfinished?: boolean; // Ran out of time (carries on next run) or another runner has the window
+  error?: string;
+}
+
+// Orders per page and line items per order - a page must stay under Shopify's 1,000 point query cost limit
+// (each line item costs about 4 points, so 20 orders x 10 line items comes to roughly 860)
+const ORDERS_PAGE_SIZE = 20;
+const LINE_ITEMS_PAGE_SIZE = 10;
+
+// Line items of larger orders are fetched order by order, this many at a time
+const EXTRA_LINE_ITEMS_PAGE_SIZE = 100;
+
+// GraphQL query for the line items of orders placed since a date
+const FETCH_RECENT_ORDERS_QUERY = `
+  query getRecentOrders($first: Int!, $after: String, $query: String!, $lineItemsFirst: Int!) {
+    orders(first: $first, after: $after, query: $query) {
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      nodes {
+        id
+        lineItems(first: $lineItemsFirst) {
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          nodes {
+            quantity
+            product {
+              id
+            }
+            originalTotalSet {
+              shopMoney {
+                amount
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+// GraphQL query for the remaining line items of one order
+const FETCH_ORDER_LINE_ITEMS_QUERY = `
+  query getOrderLineItems($id: ID!, $first: Int!, $after: String) {
+    order(id: $id) {
+      lineItems(first: $first, after: $after) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        nodes {
+          quantity
+          product {
+            id
+          }
+          originalTotalSet {
+            shopMoney {
+              amount
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Runs a query and throws on GraphQL errors
+ */
+async function queryOrders(admin: AdminApiContext, query: string, variables: Record<string, unknown>): Promise<any> {
+  const response = await admin.graphql(query, { variables });
+  const data: any = await response.json();
+
+  if (data.errors) {
+    console.error('❌ GraphQL errors fetching orders:', data.errors);
+    throw new Error(`GraphQL error: ${data.errors[0]?.message}`);
+  }
+
+  return data.data;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads the running totals a paused run saved (SalesAggregation.pendingTotals)
+ * Entries that aren't { units, revenue } numbers are dropped
+ */
+function parseSalesTotals(value: unknown): SalesByProduct {
+  if (!isRecord(value)) return {};
+
+  const sales: SalesByProduct = {};
+  for (const [productId, entry] of Object.entries(value)) {
+    if (isRecord(entry) && typeof entry.units === 'number' && typeof entry.revenue === 'number') {
+      sales[productId] = { units: entry.units, revenue: entry.revenue };
+    }
+  }
+  return sales;
+}
+
+/**
+ * Adds line items to the running totals - line items of deleted products are skipped
+ */
+function addLineItems(sales: SalesByProduct, lineItems: any[]): void {
+  for (const lineItem of lineItems) {
+    const productId = lineItem.product?.id;
+    if (!productId) continue;
+
+    const entry = sales[productId] || (sales[productId] = { units: 0, revenue: 0 });
+    entry.units += lineItem.quantity || 0;
+    entry.revenue += Number(lineItem.originalTotalSet?.shopMoney?.amount || 0);
+  }
+}
+
+/**
+ * Adds one page of orders placed since `since` to the running totals
+ * Cancelled orders are left out
+ */
+async function addOrdersPage(
+  admin: AdminApiContext,
+  sales: SalesByProduct,
+  since: Date,
+  cursor: string | null
+): Promise<{ hasNextPage: boolean; endCursor: string | null; orderCount: number }> {
+  const data = await queryOrders(admin, FETCH_RECENT_ORDERS_QUERY, {
+    first: ORDERS_PAGE_SIZE,
+    after: cursor,
+    query: `created_at:>='${since.toISOString()}' -status:cancelled`,
+    lineItemsFirst: LINE_ITEMS_PAGE_SIZE,
+  });
+
+  const orders = data?.orders;
+  if (!orders) return { hasNextPage: false, endCursor: null, orderCount: 0 };
+
+  for (const order of orders.nodes) {
+    addLineItems(sales, order.lineItems.nodes);
+
+    let lineItemsPage = order.lineItems.pageInfo;
+    while (lineItemsPage.hasNextPage) {
+      const extra = await queryOrders(admin, FETCH_ORDER_LINE_ITEMS_QUERY, {
+        id: order.id,
+        first: EXTRA_LINE_ITEMS_PAGE_SIZE,
+        after: lineItemsPage.endCursor,
+      });
+      const lineItems = extra?.order?.lineItems;
+      if (!lineItems) break;
+
+      addLineItems(sales, lineItems.nodes);
+      lineItemsPage = lineItems.pageInfo;
+    }
+  }
+
+  return { hasNextPage: orders.pageInfo.hasNextPage, endCursor: orders.pageInfo.endCursor, orderCount: orders.nodes.length };
+}
+
+/**
+ * Claims a shop's aggregation of one window for this runner - only one runner aggregates a window at a time
+ * The update only matches when no other runner holds the claim (or it is left over from a crashed run),
+ * so of two runners racing for it exactly one gets it
+ */
+async function claimAggregation(shop: string, days: number): Promise<boolean> {
+  await db.salesAggregation.createMany({
+    data: [{ shop, windowDays: days, status: 'pending' }],
+    skipDuplicates: true,
+  });
+
+  const { count } = await db.salesAggregation.updateMany({
+    where: {
+      shop,
+      windowDays: days,
+      OR: [
+        { status: { not: 'running' } },
+        { startedAt: { lt: new Date(Date.now() - STALE_AGGREGATION_MS) } },
+      ],
+    },
+    data: { status: 'running', startedAt: new Date(), lastError: null },
+  });
+  return count > 0;
+}
+
+/**
+ * Works through a shop's orders for one window until done or out of time, then replaces the cached rows
+ * A run that runs out of time saves its order cursor and totals so far, and the next run carries on from there
+ * Returns the fresh totals, or null when the run isn't finished yet or another runner holds the window
+ */
+export async function aggregateSalesVelocity(
+  admin: AdminApiContext,
+  shop: string,
+  days: number,
+  deadline: number
+): Promise<SalesByProduct | null> {
+  if (!(await claimAggregation(shop, days))) {
+    console.log(`⏳ ${days}-day sales of ${shop} are already being aggregated`);
+    return null;
+  }
+
+  const where = { shop_windowDays: { shop, windowDays: days } };
+  const aggregation = await db.salesAggregation.findUnique({ where });
+
+  // Carry on with the saved run unless it began so long ago that its window has moved on too far
+  const resumeAfter = Date.now() - days * DAY_MS - MAX_RESUMED_RUN_AGE_MS;
+  const saved = aggregation?.cursor && aggregation.windowStart && aggregation.windowStart.getTime() > resumeAfter
+    ? { since: aggregation.windowStart as Date, cursor: aggregation.cursor as string, sales: parseSalesTotals(aggregation.pendingTotals) }
+    : null;
+  const since = saved?.since || new Date(Date.now() - days * DAY_MS);
+  const sales: SalesByProduct = saved?.sales || {};
+  let cursor: string | null = saved?.cursor || null;
+  let pagesSinceSave = 0;
+
+  const saveProgress = (status: string) => db.salesAggregation.update({
+    where,
+    data: { status, cursor, windowStart: since, pendingTotals: toJsonObject(sales) },
+  });
+
+  try {
+    let hasNextPage = true;
+    while (hasNextPage) {
+      if (Date.now() >= deadline) {
+        await saveProgress('paused');
+        console.log(`⏸️ Paused ${days}-day sales aggregation of ${shop}, the next run carries on`);
+        return null;
+      }
+
+      const page = await addOrdersPage(admin, sales, since, cursor);
+      hasNextPage = page.hasNextPage;
+      cursor = page.endCursor;
+
+      // Save now and then, so a run killed without warning loses little work
+      if (hasNextPage && ++pagesSinceSave >= PAGES_PER_PROGRESS_SAVE) {
+        await saveProgress('running');
+        pagesSinceSave = 0;
+      }
+    }
+
+    const computedAt = new Date();
+    await db.$transaction([
+      db.productSalesStat.deleteMany({ where: { shop, windowDays: days } }),
+      db.productSalesStat.createMany({
+        data: Object.entries(sales).map(([productId, { units, revenue }]) => ({
+          shop, productId, windowDays: days, units, revenue, computedAt,
+        })),
+      }),
+      db.salesAggregation.update({
+        where,
+        data: {
+          status: 'completed',
+          productsCounted: Object.keys(sales).length,
+          completedAt: computedAt,
+          cursor: null,
+          windowStart: null,
+          pendingTotals: {},
+        },
+      }),
+    ]);
+
+    console.log(`📦 Cached ${days}-day sales for ${Object.keys(sales).length} products of ${shop}`);
+    return sales;
+  } catch (error) {
+    // Progress is kept - the next run retries from the last saved page
+    await db.salesAggregation.update({
+      where,
+      data: { status: 'failed', lastError: error instanceof Error ? error.message : String(error) },
+    });
+    throw error;
+  }
+}
+
+/**
+ * Units sold and revenue per product over the last `days` days, read from the cache
+ * Sorts never aggregate themselves: until the background job has filled a window's cache
+ * every product counts as unsold, so the sales order falls back to the collection's own order
+ */
+export async function getSalesVelocity(shop: string, days: number): Promise<SalesByProduct> {
+  const aggregation = await db.salesAggregation.findUnique({
+    where: { shop_windowDays: { shop, windowDays: days } },
+  });
+
+  if (!aggregation?.completedAt) {
+    // Queue the window for the background job
+    await db.salesAggregation.createMany({
+      data: [{ shop, windowDays: days, status: 'pending' }],
+      skipDuplicates: true,
+    });
+    console.log(`📈 No cached ${days}-day sales for ${shop} yet, queued for the sales aggregation job`);
+    return {};
+  }
+
+  const rows = await db.productSalesStat.findMany({
+    where: { shop, windowDays: days },
+    select: { productId: true, units: true, revenue: true },
+  });
+
+  const sales: SalesByProduct = {};
+  for (const row of rows as { productId: string; units: number; revenue: number }[]) {
+    sales[row.productId] = { units: row.units, revenue: row.revenue };
+  }
+  return sales;
+}
+
+/**
+ * The sales windows a shop's enabled collections sort by - either as their sort type
+ * or as a step of their in-tier order
+ */
+export async function getSalesWindowsInUse(shop: string): Promise<number[]> {
+  const settings = await db.collectionSetting.findMany({
+    where: { shop, enabled: true },
+    select: { sortType: true, salesWindowDays: true, secondarySort: true },
+  });
+
+  const windows = new Set<number>();
+  for (const setting of settings as { sortType: string; salesWindowDays: number; secondarySort: unknown }[]) {
+    if (getSalesSortMetric(setting.sortType)) {
+      windows.add(parseSalesWindowDays(setting.salesWindowDays));
+    }
+    getSortVelocityWindows(parseSecondarySort(setting.secondarySort)).forEach(days => windows.add(days));
+  }
+  return Array.from(windows);
+}
+
+/**
+ * Background job - recomputes every window in use whose cached totals are missing or stale,
+ * for every installed shop, until the time budget runs out
+ */
+export async function refreshStaleSalesStats(
+  maxRuntimeMs: number = 50000 // Leave headroom under a 60 second function limit
+): Promise<SalesRefreshSummary[]> {
+  const deadline = Date.now() + maxRuntimeMs;
+  const summaries: SalesRefreshSummary[] = [];
+  const staleBefore = new Date(Date.now() - SALES_STATS_MAX_AGE_MS);
+
+  const offlineSessions = await db.session.findMany({
+    where: { isOnline: false },
+    select: { shop: true },
+    distinct: ['shop'],
+  });
+
+  for (const { shop } of offlineSessions as { shop: string }[]) {
+    for (const days of await getSalesWindowsInUse(shop)) {
+      if (Date.now() >= deadline) {
+        console.log('⏱️ Sales aggregation ran out of time, the rest waits for the next run');
+        return summaries;
+      }
+
+      const aggregation = await db.salesAggregation.findUnique({
+        where: { shop_windowDays: { shop, windowDays: days } },
+      });
+      if (aggregation?.completedAt && aggregation.completedAt > staleBefore) continue;
+
+      try {
+        const { admin } = await unauthenticated.admin(shop);
+        const sales = await aggregateSalesVelocity(admin, shop, days, deadline);
+        summaries.push(sales
+          ? { shop, windowDays: days, productsCounted: Object.keys(sales).length }
+          : { shop, windowDays: days, unfinished: true });
+      } catch (error) {
+        console.error(`❌ Failed to aggregate ${days}-day sales for ${shop}:`, error);
+        summaries.push({ shop, windowDays: days, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  console.log('🏁 Sales aggregation finished:', summaries);
+  return summaries;
+}
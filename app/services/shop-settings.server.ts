@@ -0,0 +1,132 @@
+// SHOP SETTINGS SERVICE
+// Reads and writes the app-wide settings from the Global Settings page (ShopSetting table)
+
+import db from '../db.server';
+import { STATUS_POLICIES, STOCK_STRATEGIES } from './collection-sorting.server';
+import type {
+  StatusPolicies,
+  StatusPolicy,
+  StockClassificationOptions,
+  StockStrategy,
+} from './collection-sorting.server';
+import { compactRuleSet, EMPTY_RULE_SET, parseRuleSet } from '../utils/exclusion-rules';
+import type { ExclusionRuleSet } from '../utils/exclusion-rules';
+import { toJsonObject } from '../utils/json-column';
+
+export interface ShopSettings {
+  globalExclusionTags: string[];
+  excludeContinueSelling: boolean;
+  draftPolicy: StatusPolicy;
+  archivedPolicy: StatusPolicy;
+  unpublishedPolicy: StatusPolicy;
+  stockStrategy: StockStrategy;
+  stockThreshold: number;
+  stockLocationIds: string[]; // Locations whose inventory counts as stock (empty = every location)
+  globalExclusionRules: ExclusionRuleSet; // Products matching these rules keep their position in every collection
+}
+
+// Used until a shop saves its settings for the first time
+export const DEFAULT_SHOP_SETTINGS: ShopSettings = {
+  globalExclusionTags: [],
+  excludeContinueSelling: true,
+  draftPolicy: 'keep',
+  archivedPolicy: 'bottom',
+  unpublishedPolicy: 'ignore',
+  stockStrategy: 'available_for_sale',
+  stockThreshold: 0,
+  stockLocationIds: [],
+  globalExclusionRules: EMPTY_RULE_SET,
+};
+
+/**
+ * Normalizes tags the same way per-collection exclusion tags are matched: trimmed, lowercase, unique
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+}
+
+/**
+ * Falls back to the default strategy for unknown values (e.g. from an old form post)
+ */
+export function parseStockStrategy(value: string | null | undefined): StockStrategy {
+  return STOCK_STRATEGIES.includes(value as StockStrategy)
+    ? (value as StockStrategy)
+    : DEFAULT_SHOP_SETTINGS.stockStrategy;
+}
+
+/**
+ * Falls back to the given default for unknown status policy values
+ */
+export function parseStatusPolicy(value: string | null | undefined, fallback: StatusPolicy): StatusPolicy {
+  return STATUS_POLICIES.includes(value as StatusPolicy) ? (value as StatusPolicy) : fallback;
+}
+
+/**
+ * The draft/archived/unpublished policies the sorting service applies for this shop
+ */
+export function getStatusPolicies(settings: ShopSettings): StatusPolicies {
+  return {
+    draft: settings.draftPolicy,
+    archived: settings.archivedPolicy,
+    unpublished: settings.unpublishedPolicy,
+  };
+}
+
+/**
+ * The stock-classification options the sorting service applies for this shop
+ */
+export function getStockOptions(settings: ShopSettings): StockClassificationOptions {
+  return {
+    strategy: settings.stockStrategy,
+    threshold: settings.stockThreshold,
+    excludeContinueSelling: settings.excludeContinueSelling,
+    locationIds: settings.stockLocationIds,
+  };
+}
+
+/**
+ * Loads a shop's settings, falling back to defaults when nothing has been saved yet
+ */
+export async function getShopSettings(shop: string): Promise<ShopSettings> {
+  const setting = await db.shopSetting.findUnique({ where: { shop } });
+
+  if (!setting) return { ...DEFAULT_SHOP_SETTINGS };
+
+  return {
+    globalExclusionTags: setting.globalExclusionTags || [],
+    excludeContinueSelling: setting.excludeContinueSelling,
+    draftPolicy: parseStatusPolicy(setting.draftPolicy, DEFAULT_SHOP_SETTINGS.draftPolicy),
+    archivedPolicy: parseStatusPolicy(setting.archivedPolicy, DEFAULT_SHOP_SETTINGS.archivedPolicy),
+    unpublishedPolicy: parseStatusPolicy(setting.unpublishedPolicy, DEFAULT_SHOP_SETTINGS.unpublishedPolicy),
+    stockStrategy: parseStockStrategy(setting.stockStrategy),
+    stockThreshold: setting.stockThreshold,
+    stockLocationIds: setting.stockLocationIds || [],
+    globalExclusionRules: parseRuleSet(setting.globalExclusionRules),
+  };
+}
+
+/**
+ * Saves a shop's settings (creating the row on first save)
+ */
+export async function saveShopSettings(shop: string, settings: ShopSettings): Promise<ShopSettings> {
+  const data = {
+    ...settings,
+    globalExclusionTags: normalizeTags(settings.globalExclusionTags),
+    draftPolicy: parseStatusPolicy(settings.draftPolicy, DEFAULT_SHOP_SETTINGS.draftPolicy),
+    archivedPolicy: parseStatusPolicy(settings.archivedPolicy, DEFAULT_SHOP_SETTINGS.archivedPolicy),
+    unpublishedPolicy: parseStatusPolicy(settings.unpublishedPolicy, DEFAULT_SHOP_SETTINGS.unpublishedPolicy),
+    stockStrategy: parseStockStrategy(settings.stockStrategy),
+    stockThreshold: Math.max(0, Math.floor(settings.stockThreshold) || 0),
+    stockLocationIds: Array.from(new Set(settings.stockLocationIds)),
+    globalExclusionRules: compactRuleSet(settings.globalExclusionRules),
+  };
+  const row = { ...data, globalExclusionRules: toJsonObject(data.globalExclusionRules) };
+
+  await db.shopSetting.upsert({
+    where: { shop },
+    update: row,
+    create: { shop, ...row },
+  });
+
+  return data;
+}
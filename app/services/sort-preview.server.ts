@@ -0,0 +1,96 @@
+// SORT PREVIEW SERVICE
+// Dry run of a collection sort: computes the new order and explains it without reordering anything
+
+import type { AdminApiContext } from '@shopify/shopify-app-remix/server';
+import db from '../db.server';
+import { fetchCollectionCurrentOrder, getTierCounts } from './collection-sorting.server';
+import { computeCollectionOrder, DEFAULT_COLLECTION_SORT_SETTING } from './collection-resort.server';
+import { getDaysOutOfStock, getOutOfStockSince } from './stock-state.server';
+import type { Placement, TierCounts, TierName } from '../utils/sort-tiers';
+
+export interface PreviewRow {
+  id: string;
+  title: string;
+  handle: string;
+  currentPosition: number | null; // 1-based; null if the product isn't in the current order yet
+  newPosition: number; // 1-based
+  tier: TierName;
+  placement: Placement;
+  pinnedPosition: number | null; // Slot the merchant pinned the product to
+  outOfStockDays: number | null; // Whole days since the product went out of stock - null if in stock or unknown
+}
+
+export interface SortPreview {
+  collectionId: string;
+  title: string;
+  enabled: boolean; // Whether push down is currently enabled for the collection
+  sortType: string;
+  currentSortOrder: string; // Shopify's sort order for the collection right now
+  isSmart: boolean; // Smart collections add newly matching products at the end until the next re-sort
+  tierCounts: TierCounts;
+  changedCount: number; // Products whose position would change
+  rows: PreviewRow[]; // In the new order
+}
+
+/**
+ * Computes what a re-sort would do to a collection using its saved settings
+ * (or the defaults if it has never been saved) - nothing is written to Shopify
+ */
+export async function previewCollectionSort(
+  admin: AdminApiContext,
+  shop: string,
+  collectionId: string
+): Promise<SortPreview> {
+  const setting = await db.collectionSetting.findUnique({
+    where: { shop_collectionId: { shop, collectionId } },
+  });
+
+  console.log(`🔍 Previewing sort for ${collectionId}`);
+
+  const [computed, current] = await Promise.all([
+    computeCollectionOrder(admin, shop, collectionId, setting || DEFAULT_COLLECTION_SORT_SETTING),
+    fetchCollectionCurrentOrder(admin, collectionId),
+  ]);
+
+  const currentPositions = new Map<string, number>();
+  current.productIds.forEach((id, index) => currentPositions.set(id, index + 1));
+
+  const tierByProduct = new Map<string, TierName>();
+  for (const tier of computed.sortResult.tiers) {
+    for (const product of tier.products) tierByProduct.set(product.id, tier.name);
+  }
+
+  const productsById = new Map(computed.products.map(product => [product.id, product]));
+  const outOfStockSince = await getOutOfStockSince(
+    shop,
+    computed.products.filter(product => !product.isInStock).map(product => product.id)
+  );
+  const now = new Date();
+
+  const rows: PreviewRow[] = computed.sortedProductIds.map((id, index) => {
+    const product = productsById.get(id);
+    return {
+      id,
+      title: product?.title || id,
+      handle: product?.handle || '',
+      currentPosition: currentPositions.get(id) ?? null,
+      newPosition: index + 1,
+      tier: tierByProduct.get(id) || 'in_stock',
+      placement: computed.sortResult.placements[id] || { reason: 'in_stock' },
+      pinnedPosition: computed.sortResult.pinnedPositions[id] ?? null,
+      outOfStockDays: outOfStockSince[id] ? getDaysOutOfStock(outOfStockSince[id], now) : null,
+    };
+  });
+
+  return {
+    collectionId,
+    title: current.title,
+    enabled: Boolean(setting?.enabled),
+    sortType: setting?.sortType || DEFAULT_COLLECTION_SORT_SETTING.sortType,
+    currentSortOrder: current.sortOrder,
+    isSmart: current.isSmart,
+    tierCounts: getTierCounts(computed.sortResult),
+    changedCount: rows.filter(row => row.currentPosition !== row.newPosition).length,
+    rows,
+  };
+}
@@ -0,0 +1,250 @@
+// SORT JOB QUEUE
+// Durable queue of collection re-sorts stored in Postgres (SortJob table)
+// Requests and webhooks enqueue jobs; the worker route claims and runs them outside the request
+
+import type { Prisma } from '@prisma/client';
+import db from '../db.server';
+import { unauthenticated } from '../shopify.server';
+import { resortCollection } from './collection-resort.server';
+import { toJsonObject } from '../utils/json-column';
+import { isUniqueConstraintError } from '../utils/prisma-errors';
+
+export type SortJobTrigger = 'manual' | 'webhook' | 'collection_update' | 'schedule';
+export type SortJobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+// A running job whose lock is older than this is assumed to belong to a crashed worker
+const STALE_LOCK_MS = 10 * 60 * 1000; // 10 minutes
+
+// Delay before a failed job is retried, multiplied by the attempt number
+const RETRY_BACKOFF_MS = 30 * 1000; // 30 seconds
+
+// Completed and failed jobs are deleted after this long
+const FINISHED_JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+/**
+ * Queues a re-sort for a collection and returns the job id
+ * If a job for the same collection is already waiting, that job is reused -
+ * jobs read the latest settings when they run, so one pending job is enough
+ * A partial unique index allows one pending job per collection, so concurrent webhooks can't queue two
+ */
+export async function enqueueSortJob(
+  shop: string,
+  collectionId: string,
+  trigger: SortJobTrigger = 'manual'
+): Promise<string> {
+  const findPending = () =>
+    db.sortJob.findFirst({
+      where: { shop, collectionId, status: 'pending' },
+      orderBy: { createdAt: 'asc' },
+    });
+
+  const existing = await findPending();
+  if (existing) {
+    console.log(`📥 Reusing pending sort job ${existing.id} for ${collectionId}`);
+    return existing.id;
+  }
+
+  try {
+    const job = await db.sortJob.create({
+      data: { shop, collectionId, trigger },
+    });
+
+    console.log(`📥 Queued sort job ${job.id} for ${collectionId} (${trigger})`);
+    return job.id;
+  } catch (error) {
+    if (!isUniqueConstraintError(error)) throw error;
+
+    // Another request queued the job between our read and insert
+    const queued = await findPending();
+    if (!queued) throw error;
+
+    console.log(`📥 Reusing sort job ${queued.id} just queued for ${collectionId}`);
+    return queued.id;
+  }
+}
+
+/**
+ * Atomically claims the oldest runnable job
+ * FOR UPDATE SKIP LOCKED lets several workers drain the queue without picking the same job
+ * Jobs whose worker crashed are picked up again, as long as they have attempts left
+ */
+export async function claimNextSortJob(): Promise<string | null> {
+  const staleBefore = new Date(Date.now() - STALE_LOCK_MS);
+
+  const claimed = await db.$queryRaw<{ id: string }[]>`
+    UPDATE "SortJob"
+    SET "status" = 'running',
+        "attempts" = "attempts" + 1,
+        "lockedAt" = NOW(),
+        "startedAt" = COALESCE("startedAt", NOW()),
+        "updatedAt" = NOW()
+    WHERE "id" = (
+      SELECT "id" FROM "SortJob"
+      WHERE ("status" = 'pending' AND "runAfter" <= NOW())
+         OR ("status" = 'running' AND "lockedAt" < ${staleBefore} AND "attempts" < "maxAttempts")
+      ORDER BY "createdAt" ASC
+      FOR UPDATE SKIP LOCKED
+      LIMIT 1
+    )
+    RETURNING "id"
+  `;
+
+  return claimed[0]?.id ?? null;
+}
+
+/**
+ * Fails jobs whose worker crashed on their last attempt - otherwise a job that brings the worker down
+ * every time would stay "running" forever
+ */
+export async function failAbandonedSortJobs(): Promise<number> {
+  const staleBefore = new Date(Date.now() - STALE_LOCK_MS);
+
+  const count = await db.$executeRaw`
+    UPDATE "SortJob"
+    SET "status" = 'failed',
+        "lastError" = 'The worker stopped before the job finished',
+        "lockedAt" = NULL,
+        "completedAt" = NOW(),
+        "updatedAt" = NOW()
+    WHERE "status" = 'running' AND "lockedAt" < ${staleBefore} AND "attempts" >= "maxAttempts"
+  `;
+
+  if (count > 0) {
+    console.error(`❌ Failed ${count} sort job(s) abandoned by crashed workers on their last attempt`);
+  }
+  return count;
+}
+
+/**
+ * Deletes completed and failed jobs past the retention period
+ */
+export async function pruneFinishedSortJobs(): Promise<number> {
+  const { count } = await db.sortJob.deleteMany({
+    where: {
+      status: { in: ['completed', 'failed'] },
+      completedAt: { lt: new Date(Date.now() - FINISHED_JOB_RETENTION_MS) },
+    },
+  });
+
+  if (count > 0) {
+    console.log(`🧹 Deleted ${count} finished sort job(s)`);
+  }
+  return count;
+}
+
+/**
+ * Runs a claimed job and records the outcome
+ * Failed jobs go back to pending with a backoff until maxAttempts is reached
+ */
+export async function runSortJob(jobId: string): Promise<SortJobStatus> {
+  const job = await db.sortJob.findUnique({ where: { id: jobId } });
+  if (!job) {
+    console.warn(`⚠️ Sort job ${jobId} disappeared before it could run`);
+    return 'failed';
+  }
+
+  console.log(`⚙️ Running sort job ${job.id} for ${job.collectionId} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+  let error: string | undefined;
+  let result: Prisma.InputJsonObject | undefined;
+
+  try {
+    const { admin } = await unauthenticated.admin(job.shop);
+    const resortResult = await resortCollection(admin, job.shop, job.collectionId, job.trigger as SortJobTrigger);
+
+    if (resortResult.success || resortResult.skipped) {
+      result = toJsonObject({
+        stats: resortResult.stats ?? null,
+        movesCount: resortResult.movesCount ?? null,
+        progress: resortResult.progress ?? null,
+        skipped: resortResult.skipped ?? false,
+        outOfStockAction: resortResult.outOfStockAction ?? null,
+      });
+    } else {
+      error = resortResult.error || 'Unknown error';
+    }
+  } catch (caught) {
+    error = caught instanceof Error ? caught.message : String(caught);
+  }
+
+  if (!error) {
+    await db.sortJob.update({
+      where: { id: job.id },
+      data: { status: 'completed', result, lastError: null, lockedAt: null, completedAt: new Date() },
+    });
+    console.log(`✅ Sort job ${job.id} completed`);
+    return 'completed';
+  }
+
+  const canRetry = job.attempts < job.maxAttempts;
+  const failed = { status: 'failed', lastError: error, lockedAt: null, completedAt: new Date() };
+
+  if (!canRetry) {
+    await db.sortJob.update({ where: { id: job.id }, data: failed });
+  } else {
+    try {
+      await db.sortJob.update({
+        where: { id: job.id },
+        data: { status: 'pending', lastError: error, lockedAt: null, runAfter: new Date(Date.now() + RETRY_BACKOFF_MS * job.attempts) },
+      });
+    } catch (updateError) {
+      if (!isUniqueConstraintError(updateError)) throw updateError;
+
+      // A job queued while this one ran is already pending and will re-sort the collection
+      await db.sortJob.update({ where: { id: job.id }, data: failed });
+      console.error(`❌ Sort job ${job.id} failed and was replaced by a newer pending job:`, error);
+      return 'failed';
+    }
+  }
+
+  console.error(`❌ Sort job ${job.id} ${canRetry ? 'will be retried' : 'failed permanently'}:`, error);
+  return canRetry ? 'pending' : 'failed';
+}
+
+/**
+ * Worker loop - claims and runs jobs one at a time until the queue is empty
+ * or the time budget runs out (so a serverless invocation finishes before its timeout)
+ */
+export async function processSortQueue(
+  maxRuntimeMs: number = 50000 // Leave headroom under a 60 second function limit
+): Promise<{ processed: number; completed: number; failed: number; retried: number }> {
+  const deadline = Date.now() + maxRuntimeMs;
+  const summary = { processed: 0, completed: 0, failed: 0, retried: 0 };
+
+  await failAbandonedSortJobs();
+  await pruneFinishedSortJobs();
+
+  while (Date.now() < deadline) {
+    const jobId = await claimNextSortJob();
+    if (!jobId) break;
+
+    const status = await runSortJob(jobId);
+    summary.processed++;
+    if (status === 'completed') summary.completed++;
+    else if (status === 'failed') summary.failed++;
+    else summary.retried++;
+  }
+
+  console.log('🏁 Sort worker finished:', summary);
+  return summary;
+}
+
+/**
+ * Returns the current state of the given jobs, scoped to one shop
+ */
+export async function getSortJobs(shop: string, jobIds: string[]) {
+  if (jobIds.length === 0) return [];
+
+  return db.sortJob.findMany({
+    where: { shop, id: { in: jobIds } },
+    select: {
+      id: true,
+      collectionId: true,
+      status: true,
+      attempts: true,
+      lastError: true,
+      result: true,
+      updatedAt: true,
+    },
+  });
+}
@@ -0,0 +1,178 @@
+// PRODUCT STOCK STATE
+// Remembers whether each product was last seen in stock (ProductStockState table), fed by webhooks and sort runs,
+// so we know when a product came back in stock (out → in) and how long it has been out of stock
+
+import type { AdminApiContext } from '@shopify/shopify-app-remix/server';
+import db from '../db.server';
+import { fetchRemainingVariants, isProductInStock } from './collection-sorting.server';
+import { getShopSettings, getStockOptions } from './shop-settings.server';
+
+/**
+ * Whether a product is in stock under the shop's stock strategy - the same classification sort runs use,
+ * so webhooks and sort runs agree on the product's state. Null if the product is gone
+ */
+export async function fetchProductInStock(
+  admin: AdminApiContext,
+  shop: string,
+  productId: string
+): Promise<boolean | null> {
+  const stockOptions = getStockOptions(await getShopSettings(shop));
+  const variants = await fetchRemainingVariants(admin, productId, null, stockOptions.locationIds || []);
+  if (variants.length === 0) return null;
+  return isProductInStock(variants, stockOptions);
+}
+
+type StockState = { inStock: boolean; outOfStockSince: Date | null };
+
+/**
+ * The fields to update when a product is seen in or out of stock again, or null if nothing changed
+ * Going out of stock starts the out-of-stock clock; coming back stops it and counts as a restock
+ */
+function getStockStateChange(previous: StockState, inStock: boolean, now: Date): Record<string, unknown> | null {
+  if (previous.inStock && inStock) return null;
+  if (!previous.inStock && inStock) return { inStock: true, outOfStockSince: null, restockedAt: now };
+  if (previous.inStock && !inStock) return { inStock: false, outOfStockSince: now };
+  // Still out of stock - rows written before out-of-stock tracking existed start their clock now
+  return previous.outOfStockSince ? null : { outOfStockSince: now };
+}
+
+/**
+ * Records whether a product is in stock now and returns whether it just came back in stock
+ * The first observation of a product only sets the baseline - a restock needs a known out-of-stock state before it
+ */
+export async function recordStockObservation(
+  shop: string,
+  productId: string,
+  inStock: boolean
+): Promise<{ restocked: boolean }> {
+  const now = new Date();
+  const previous = await db.productStockState.findUnique({
+    where: { shop_productId: { shop, productId } },
+  });
+
+  if (!previous) {
+    await db.productStockState.create({
+      data: { shop, productId, inStock, outOfStockSince: inStock ? null : now },
+    });
+    return { restocked: false };
+  }
+
+  const change = getStockStateChange(previous, inStock, now);
+  if (change) {
+    await db.productStockState.update({
+      where: { shop_productId: { shop, productId } },
+      data: change,
+    });
+  }
+
+  const restocked = !previous.inStock && inStock;
+  if (restocked) {
+    console.log(`📦 ${productId} is back in stock`);
+  }
+  return { restocked };
+}
+
+/**
+ * Records the stock state of many products at once - used by sort runs,
+ * which see every product of a collection
+ */
+export async function recordStockObservations(
+  shop: string,
+  observations: { productId: string; inStock: boolean }[]
+): Promise<void> {
+  if (observations.length === 0) return;
+
+  const now = new Date();
+  const previousRows = await db.productStockState.findMany({
+    where: { shop, productId: { in: observations.map(observation => observation.productId) } },
+    select: { productId: true, inStock: true, outOfStockSince: true },
+  });
+  const previousByProduct = new Map<string, StockState>(
+    (previousRows as (StockState & { productId: string })[]).map(row => [row.productId, row])
+  );
+
+  const newRows = observations
+    .filter(observation => !previousByProduct.has(observation.productId))
+    .map(({ productId, inStock }) => ({ shop, productId, inStock, outOfStockSince: inStock ? null : now }));
+
+  const updates = observations.flatMap(({ productId, inStock }) => {
+    const previous = previousByProduct.get(productId);
+    const change = previous ? getStockStateChange(previous, inStock, now) : null;
+    return change
+      ? [db.productStockState.update({ where: { shop_productId: { shop, productId } }, data: change })]
+      : [];
+  });
+
+  if (newRows.length > 0) {
+    await db.productStockState.createMany({ data: newRows, skipDuplicates: true });
+  }
+  if (updates.length > 0) {
+    await db.$transaction(updates);
+  }
+
+  console.log(`📋 Recorded stock state of ${observations.length} products (${newRows.length} new, ${updates.length} changed)`);
+}
+
+/**
+ * Remembers the updatedAt the app's own out-of-stock tag changes left on products,
+ * so the products/update webhooks they fire can be told apart from the merchant's edits
+ */
+export async function recordAppProductUpdates(
+  shop: string,
+  updates: { productId: string; updatedAt: Date }[]
+): Promise<void> {
+  if (updates.length === 0) return;
+
+  await db.$transaction(updates.map(({ productId, updatedAt }) => db.productStockState.updateMany({
+    where: { shop, productId },
+    data: { appUpdatedAt: updatedAt },
+  })));
+}
+
+/**
+ * Whether a product update is the app's own out-of-stock tag change - the product's updatedAt is the one it left
+ */
+export async function isAppProductUpdate(shop: string, productId: string, updatedAt: Date): Promise<boolean> {
+  const state = await db.productStockState.findUnique({
+    where: { shop_productId: { shop, productId } },
+    select: { appUpdatedAt: true },
+  });
+  return state?.appUpdatedAt?.getTime() === updatedAt.getTime();
+}
+
+/**
+ * When each of the given products went out of stock, for those currently out of stock
+ */
+export async function getOutOfStockSince(shop: string, productIds: string[]): Promise<Record<string, Date>> {
+  if (productIds.length === 0) return {};
+
+  const rows = await db.productStockState.findMany({
+    where: { shop, productId: { in: productIds }, inStock: false, outOfStockSince: { not: null } },
+    select: { productId: true, outOfStockSince: true },
+  });
+
+  return Object.fromEntries(
+    (rows as { productId: string; outOfStockSince: Date }[]).map(row => [row.productId, row.outOfStockSince])
+  );
+}
+
+/**
+ * Whole days between a product going out of stock and now
+ */
+export function getDaysOutOfStock(since: Date, now: Date = new Date()): number {
+  return Math.floor((now.getTime() - since.getTime()) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * When each product came back in stock, for products restocked within the last `hours` hours
+ */
+export async function getRecentRestocks(shop: string, hours: number): Promise<Record<string, Date>> {
+  const rows = await db.productStockState.findMany({
+    where: { shop, restockedAt: { gte: new Date(Date.now() - hours * 60 * 60 * 1000) } },
+    select: { productId: true, restockedAt: true },
+  });
+
+  return Object.fromEntries(
+    (rows as { productId: string; restockedAt: Date }[]).map(row => [row.productId, row.restockedAt])
+  );
+}
@@ -0,0 +1,195 @@
+// PRODUCT TAG INDEX SERVICE
+// Every product tag of a shop, cached in the database (ProductTag) so tag suggestions don't walk the catalog
+// The index is rebuilt from Shopify once it is older than its TTL; products/update webhooks add new tags in between
+
+import type { AdminApiContext } from '@shopify/shopify-app-remix/server';
+import db from '../db.server';
+
+// A full refresh also drops tags no product uses any more - webhooks only ever add tags
+const TAG_INDEX_TTL_MS = 12 * 60 * 60 * 1000; // 12 hours
+
+// A refresh still marked running after this long is assumed to belong to a crashed request
+const STALE_REFRESH_MS = 5 * 60 * 1000; // 5 minutes
+
+// Suggestions returned per search
+const DEFAULT_SEARCH_LIMIT = 20;
+
+// GraphQL query for a page of the shop's product tags
+const FETCH_PRODUCT_TAGS_QUERY = `
+  query getProductTags($first: Int!, $after: String) {
+    productTags(first: $first, after: $after) {
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      edges {
+        node
+      }
+    }
+  }
+`;
+
+/**
+ * Fetches every product tag of the shop
+ */
+export async function fetchAllProductTags(admin: AdminApiContext): Promise<string[]> {
+  const tags: string[] = [];
+  let hasNextPage = true;
+  let cursor: string | null = null;
+
+  while (hasNextPage) {
+    const response = await admin.graphql(FETCH_PRODUCT_TAGS_QUERY, {
+      variables: { first: 1000, after: cursor },
+    });
+
+    const data: any = await response.json();
+
+    if (data.errors) {
+      console.error('❌ GraphQL errors fetching product tags:', data.errors);
+      throw new Error(`GraphQL error: ${data.errors[0]?.message}`);
+    }
+
+    const page = data.data?.productTags;
+    if (!page) break;
+
+    tags.push(...page.edges.map((edge: any) => edge.node));
+    hasNextPage = page.pageInfo.hasNextPage;
+    cursor = page.pageInfo.endCursor;
+  }
+
+  return tags;
+}
+
+/**
+ * Claims a shop's tag index refresh for this request - only one request rebuilds the index at a time
+ * The update only matches when no other refresh is running (or it is left over from a crashed request),
+ * so of two requests racing for it exactly one gets it
+ */
+async function claimTagIndexRefresh(shop: string): Promise<boolean> {
+  await db.tagIndex.createMany({
+    data: [{ shop, status: 'pending' }],
+    skipDuplicates: true,
+  });
+
+  const { count } = await db.tagIndex.updateMany({
+    where: {
+      shop,
+      OR: [
+        { status: { not: 'running' } },
+        { startedAt: { lt: new Date(Date.now() - STALE_REFRESH_MS) } },
+      ],
+    },
+    data: { status: 'running', startedAt: new Date(), lastError: null },
+  });
+  return count > 0;
+}
+
+/**
+ * Rebuilds a shop's tag index from Shopify
+ * Returns the number of tags indexed, or null when another request is already rebuilding it
+ */
+export async function refreshTagIndex(admin: AdminApiContext, shop: string): Promise<number | null> {
+  if (!(await claimTagIndexRefresh(shop))) return null;
+
+  try {
+    const tags = await fetchAllProductTags(admin);
+
+    await db.$transaction([
+      db.productTag.deleteMany({ where: { shop } }),
+      db.productTag.createMany({
+        data: tags.map(tag => ({ shop, tag })),
+        skipDuplicates: true,
+      }),
+      db.tagIndex.update({
+        where: { shop },
+        data: { status: 'completed', tagCount: tags.length, refreshedAt: new Date() },
+      }),
+    ]);
+
+    console.log(`🏷️ Indexed ${tags.length} product tags of ${shop}`);
+    return tags.length;
+  } catch (error) {
+    await db.tagIndex.update({
+      where: { shop },
+      data: { status: 'failed', lastError: error instanceof Error ? error.message : String(error) },
+    });
+    throw error;
+  }
+}
+
+/**
+ * Makes sure the shop's tag index exists and is within its TTL, refreshing it if not
+ * While another request is refreshing it, the tags indexed so far are served - none during the first build
+ * A stale index that fails to refresh is still served - suggestions a few hours old beat none
+ */
+export async function ensureTagIndex(admin: AdminApiContext, shop: string): Promise<void> {
+  const index = await db.tagIndex.findUnique({ where: { shop } });
+  const now = Date.now();
+
+  const isFresh = index?.refreshedAt && now - index.refreshedAt.getTime() < TAG_INDEX_TTL_MS;
+  if (isFresh) return;
+
+  try {
+    const tagCount = await refreshTagIndex(admin, shop);
+    if (tagCount === null) {
+      console.log(`⏳ Tag index of ${shop} is being refreshed by another request, serving what is indexed so far`);
+    }
+  } catch (error) {
+    if (!index?.refreshedAt) throw error;
+    console.error(`❌ Error refreshing tag index of ${shop}, serving cached tags:`, error);
+  }
+}
+
+/**
+ * Tags containing the search text, those starting with it first
+ * An empty search returns the first tags alphabetically
+ */
+export async function searchTags(
+  admin: AdminApiContext,
+  shop: string,
+  query: string,
+  limit: number = DEFAULT_SEARCH_LIMIT
+): Promise<string[]> {
+  await ensureTagIndex(admin, shop);
+
+  const search = query.trim();
+  const prefixRows = await db.productTag.findMany({
+    where: { shop, tag: { startsWith: search, mode: 'insensitive' } },
+    select: { tag: true },
+    orderBy: { tag: 'asc' },
+    take: limit,
+  });
+  const tags = prefixRows.map((row: { tag: string }) => row.tag);
+
+  if (search && tags.length < limit) {
+    const containsRows = await db.productTag.findMany({
+      where: { shop, tag: { contains: search, mode: 'insensitive', notIn: tags } },
+      select: { tag: true },
+      orderBy: { tag: 'asc' },
+      take: limit - tags.length,
+    });
+    tags.push(...containsRows.map((row: { tag: string }) => row.tag));
+  }
+
+  return tags;
+}
+
+/**
+ * Adds a product's tags to the shop's index - called from products/update webhooks
+ * Shops without an index yet are skipped; their first search builds it in full
+ */
+export async function addTagsToIndex(shop: string, tags: string[]): Promise<void> {
+  const newTags = tags.map(tag => tag.trim()).filter(Boolean);
+  if (newTags.length === 0) return;
+
+  const index = await db.tagIndex.findUnique({ where: { shop }, select: { refreshedAt: true } });
+  if (!index?.refreshedAt) return;
+
+  const { count } = await db.productTag.createMany({
+    data: newTags.map(tag => ({ shop, tag })),
+    skipDuplicates: true,
+  });
+  if (count > 0) {
+    console.log(`🏷️ Added ${count} new tag(s) to the tag index of ${shop}`);
+  }
+}
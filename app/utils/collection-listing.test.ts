@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_COLLECTION_LIST_SORT, parseCollectionListParams } from './collection-listing';
+
+const parse = (search: string) => parseCollectionListParams(new URLSearchParams(search));
+
+describe('parseCollectionListParams', () => {
+  it('falls back to the defaults for an empty URL', () => {
+    expect(parse('')).toEqual({
+      query: '',
+      tags: [],
+      tab: 'all',
+      sort: DEFAULT_COLLECTION_LIST_SORT,
+      after: null,
+      before: null,
+    });
+  });
+
+  it('reads the search, tab and sort', () => {
+    expect(parse('query=%20summer%20&tab=enabled&sort=updated+desc')).toMatchObject({
+      query: 'summer',
+      tab: 'enabled',
+      sort: 'updated desc',
+    });
+  });
+
+  it('reads every tag filter and skips empty ones', () => {
+    expect(parse('tag=sale&tag=&tag=new').tags).toEqual(['sale', 'new']);
+  });
+
+  it('ignores an unknown tab or sort', () => {
+    expect(parse('tab=archived&sort=price+asc')).toMatchObject({ tab: 'all', sort: DEFAULT_COLLECTION_LIST_SORT });
+  });
+
+  it('reads the previous page cursor', () => {
+    expect(parse('before=abc')).toMatchObject({ after: null, before: 'abc' });
+  });
+
+  it('prefers the next page cursor when both are set', () => {
+    expect(parse('after=def&before=abc')).toMatchObject({ after: 'def', before: null });
+  });
+});
@@ -0,0 +1,48 @@
+// COLLECTION LISTING
+// URL search params of the collections page - search, tag filter, tab, sort and page cursors
+// The loader reads them to fetch one page of collections from Shopify; the page writes them as the merchant filters
+
+export const COLLECTIONS_PAGE_SIZE = 50;
+
+// Sorts the collections list supports - Shopify can only sort collections by title or last update
+export const COLLECTION_LIST_SORTS = ['title asc', 'title desc', 'updated desc', 'updated asc'] as const;
+
+export type CollectionListSort = typeof COLLECTION_LIST_SORTS[number];
+
+export const DEFAULT_COLLECTION_LIST_SORT: CollectionListSort = 'title asc';
+
+// Options for the IndexFilters sort dropdown
+export const COLLECTION_LIST_SORT_OPTIONS: { label: string; value: CollectionListSort; directionLabel: string }[] = [
+  { label: 'Title', value: 'title asc', directionLabel: 'A-Z' },
+  { label: 'Title', value: 'title desc', directionLabel: 'Z-A' },
+  { label: 'Updated', value: 'updated desc', directionLabel: 'Newest first' },
+  { label: 'Updated', value: 'updated asc', directionLabel: 'Oldest first' },
+];
+
+export type CollectionListTab = 'all' | 'enabled';
+
+export interface CollectionListParams {
+  query: string; // Search text matched against collection titles
+  tags: string[]; // Only collections containing products with one of these tags
+  tab: CollectionListTab; // "enabled" lists only collections with push down enabled
+  sort: CollectionListSort;
+  after: string | null; // Cursor of the next page
+  before: string | null; // Cursor of the previous page
+}
+
+/**
+ * Reads the collections list params from the page URL, falling back to the defaults
+ */
+export function parseCollectionListParams(searchParams: URLSearchParams): CollectionListParams {
+  const sort = searchParams.get('sort') as CollectionListSort;
+  const after = searchParams.get('after');
+
+  return {
+    query: searchParams.get('query')?.trim() || '',
+    tags: searchParams.getAll('tag').filter(Boolean),
+    tab: searchParams.get('tab') === 'enabled' ? 'enabled' : 'all',
+    sort: COLLECTION_LIST_SORTS.includes(sort) ? sort : DEFAULT_COLLECTION_LIST_SORT,
+    after: after || null,
+    before: after ? null : searchParams.get('before') || null,
+  };
+}
@@ -0,0 +1,187 @@
+import { describe, expect, it } from 'vitest';
+import {
+  compactRuleSet,
+  evaluateRule,
+  evaluateRuleSet,
+  getRuleMetafieldKeys,
+  isRuleComplete,
+  parseRuleSet,
+  type ExclusionRule,
+  type ExclusionRuleSet,
+  type RuleSubject,
+} from './exclusion-rules';
+
+const NOW = new Date('2026-10-18T00:00:00Z');
+
+const subject: RuleSubject = {
+  tags: ['Clearance', 'summer'],
+  vendor: 'Acme',
+  productType: 'Shirt',
+  createdAt: '2026-10-08T00:00:00Z', // 10 days before NOW
+  minPrice: 25,
+  metafields: { 'custom.season': 'Winter', 'custom.weight': '1.5' },
+};
+
+const rule = (overrides: Partial<ExclusionRule>): ExclusionRule => ({
+  field: 'tag',
+  operator: 'equals',
+  value: '',
+  ...overrides,
+});
+
+const matching = rule({ field: 'vendor', value: 'acme' });
+const failing = rule({ field: 'vendor', value: 'other' });
+
+describe('evaluateRule', () => {
+  it('compares tags case-insensitively', () => {
+    expect(evaluateRule(rule({ value: 'clearance' }), subject)).toBe(true);
+    expect(evaluateRule(rule({ operator: 'not_equals', value: 'SUMMER' }), subject)).toBe(false);
+    expect(evaluateRule(rule({ operator: 'contains', value: 'clear' }), subject)).toBe(true);
+  });
+
+  it('applies the text operators to vendor and product type', () => {
+    expect(evaluateRule(rule({ field: 'vendor', operator: 'not_contains', value: 'cm' }), subject)).toBe(false);
+    expect(evaluateRule(rule({ field: 'productType', operator: 'exists' }), subject)).toBe(true);
+    expect(evaluateRule(rule({ field: 'productType', operator: 'not_exists' }), { ...subject, productType: ' ' })).toBe(true);
+  });
+
+  it('compares price and age in days as numbers', () => {
+    expect(evaluateRule(rule({ field: 'price', operator: 'greater_than', value: '20' }), subject)).toBe(true);
+    expect(evaluateRule(rule({ field: 'price', operator: 'less_than', value: '25' }), subject)).toBe(false);
+    expect(evaluateRule(rule({ field: 'createdAtAge', operator: 'less_than', value: '14' }), subject, NOW)).toBe(true);
+    expect(evaluateRule(rule({ field: 'createdAtAge', operator: 'greater_than', value: '14' }), subject, NOW)).toBe(false);
+  });
+
+  it('reads metafields by their namespace.key', () => {
+    expect(evaluateRule(rule({ field: 'metafield', metafieldKey: 'custom.season', value: 'winter' }), subject)).toBe(true);
+    expect(evaluateRule(rule({ field: 'metafield', metafieldKey: 'custom.color', operator: 'not_exists' }), subject)).toBe(true);
+  });
+
+  it('parses metafield values as numbers for the number operators', () => {
+    const heavierThan = (value: string) => rule({ field: 'metafield', metafieldKey: 'custom.weight', operator: 'greater_than', value });
+
+    expect(evaluateRule(heavierThan('1.2'), subject)).toBe(true);
+    expect(evaluateRule(heavierThan('2'), subject)).toBe(false);
+  });
+
+  it('never matches a number operator on a missing or non-numeric metafield', () => {
+    const lessThan = (metafieldKey: string) => rule({ field: 'metafield', metafieldKey, operator: 'less_than', value: '100' });
+
+    expect(evaluateRule(lessThan('custom.color'), subject)).toBe(false);
+    expect(evaluateRule(lessThan('custom.season'), subject)).toBe(false);
+  });
+});
+
+describe('evaluateRuleSet', () => {
+  const ruleSet = (match: 'all' | 'any', groups: { match: 'all' | 'any'; rules: ExclusionRule[] }[]): ExclusionRuleSet =>
+    ({ match, groups });
+
+  it('never matches an empty rule set', () => {
+    expect(evaluateRuleSet(ruleSet('any', []), subject)).toBe(false);
+    expect(evaluateRuleSet(ruleSet('all', []), subject)).toBe(false);
+  });
+
+  it('needs every rule of an "all" group and one rule of an "any" group', () => {
+    expect(evaluateRuleSet(ruleSet('any', [{ match: 'all', rules: [matching, failing] }]), subject)).toBe(false);
+    expect(evaluateRuleSet(ruleSet('any', [{ match: 'any', rules: [matching, failing] }]), subject)).toBe(true);
+  });
+
+  it('needs every group of an "all" set and one group of an "any" set', () => {
+    const groups = [{ match: 'all' as const, rules: [matching] }, { match: 'all' as const, rules: [failing] }];
+
+    expect(evaluateRuleSet(ruleSet('all', groups), subject)).toBe(false);
+    expect(evaluateRuleSet(ruleSet('any', groups), subject)).toBe(true);
+  });
+
+  it('ignores incomplete rules', () => {
+    const incomplete = rule({ field: 'vendor', value: '  ' });
+
+    expect(evaluateRuleSet(ruleSet('any', [{ match: 'all', rules: [matching, incomplete] }]), subject)).toBe(true);
+    expect(evaluateRuleSet(ruleSet('any', [{ match: 'any', rules: [incomplete] }]), subject)).toBe(false);
+  });
+});
+
+describe('isRuleComplete', () => {
+  it('needs a value for the text operators', () => {
+    expect(isRuleComplete(rule({ value: '' }))).toBe(false);
+    expect(isRuleComplete(rule({ value: 'sale' }))).toBe(true);
+  });
+
+  it('needs no value to test whether a field is set', () => {
+    expect(isRuleComplete(rule({ field: 'productType', operator: 'exists' }))).toBe(true);
+  });
+
+  it('needs a number for the number operators', () => {
+    expect(isRuleComplete(rule({ field: 'price', operator: 'greater_than', value: 'ten' }))).toBe(false);
+    expect(isRuleComplete(rule({ field: 'price', operator: 'greater_than', value: '10' }))).toBe(true);
+  });
+
+  it('rejects operators the field does not support', () => {
+    expect(isRuleComplete(rule({ field: 'price', operator: 'equals', value: '10' }))).toBe(false);
+  });
+
+  it('needs a namespace.key for metafield rules', () => {
+    expect(isRuleComplete(rule({ field: 'metafield', metafieldKey: 'season', value: 'x' }))).toBe(false);
+    expect(isRuleComplete(rule({ field: 'metafield', metafieldKey: 'custom.season', value: 'x' }))).toBe(true);
+  });
+});
+
+describe('parseRuleSet', () => {
+  it('reads a rule set posted as JSON', () => {
+    const posted = JSON.stringify({ match: 'all', groups: [{ match: 'any', rules: [matching] }] });
+
+    expect(parseRuleSet(posted)).toEqual({ match: 'all', groups: [{ match: 'any', rules: [matching] }] });
+  });
+
+  it('falls back to an empty rule set for malformed input', () => {
+    expect(parseRuleSet('{not json')).toEqual({ match: 'any', groups: [] });
+    expect(parseRuleSet(null)).toEqual({ match: 'any', groups: [] });
+    expect(parseRuleSet({ groups: 'nope' })).toEqual({ match: 'any', groups: [] });
+  });
+
+  it('drops rules with an unknown field or operator and defaults the matches', () => {
+    const parsed = parseRuleSet({
+      groups: [{ rules: [{ field: 'color', operator: 'equals', value: 'red' }, { field: 'tag', operator: 'equals', value: 'sale' }] }],
+    });
+
+    expect(parsed).toEqual({ match: 'any', groups: [{ match: 'all', rules: [{ field: 'tag', operator: 'equals', value: 'sale' }] }] });
+  });
+
+  it('keeps the metafield key only on metafield rules', () => {
+    const parsed = parseRuleSet({
+      groups: [{ rules: [
+        { field: 'metafield', metafieldKey: ' custom.season ', operator: 'exists' },
+        { field: 'vendor', metafieldKey: 'custom.season', operator: 'equals', value: 'Acme' },
+      ] }],
+    });
+
+    expect(parsed.groups[0].rules).toEqual([
+      { field: 'metafield', metafieldKey: 'custom.season', operator: 'exists', value: '' },
+      { field: 'vendor', operator: 'equals', value: 'Acme' },
+    ]);
+  });
+});
+
+describe('compactRuleSet', () => {
+  it('drops incomplete rules and the groups they leave empty', () => {
+    const compacted = compactRuleSet({
+      match: 'any',
+      groups: [{ match: 'all', rules: [matching, rule({ value: '' })] }, { match: 'any', rules: [rule({ value: '' })] }],
+    });
+
+    expect(compacted).toEqual({ match: 'any', groups: [{ match: 'all', rules: [matching] }] });
+  });
+});
+
+describe('getRuleMetafieldKeys', () => {
+  it('lists each complete metafield rule key once across rule sets', () => {
+    const season = rule({ field: 'metafield', metafieldKey: 'custom.season', value: 'winter' });
+    const incomplete = rule({ field: 'metafield', metafieldKey: 'custom.color', value: '' });
+    const ruleSets: ExclusionRuleSet[] = [
+      { match: 'any', groups: [{ match: 'all', rules: [season, incomplete, matching] }] },
+      { match: 'any', groups: [{ match: 'any', rules: [season] }] },
+    ];
+
+    expect(getRuleMetafieldKeys(ruleSets)).toEqual(['custom.season']);
+  });
+});
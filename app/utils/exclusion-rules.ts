@@ -0,0 +1,293 @@
+// EXCLUSION RULES
+// A small rule language for keeping products in place beyond exclusion tags,
+// shared by the sorting service (evaluation) and the rule editor (labels and validation)
+// A rule set matches when its groups match ("any" = OR, "all" = AND); a group matches when its rules do
+
+// What a matching tag or rule does to a product:
+// - exclude: keeps its position whatever its stock
+// - push_down: always goes to the bottom tier, even when in stock (e.g. discontinued)
+// - boost: pulled to the top while in stock
+export const RULE_KINDS = ['exclude', 'push_down', 'boost'] as const;
+
+export type RuleKind = typeof RULE_KINDS[number];
+
+export const RULE_KIND_LABELS: Record<RuleKind, string> = {
+  exclude: 'Keep in place',
+  push_down: 'Always push down',
+  boost: 'Boost to top',
+};
+
+// Product fields a rule can test
+export const RULE_FIELDS = ['tag', 'vendor', 'productType', 'metafield', 'price', 'createdAtAge'] as const;
+
+export type RuleField = typeof RULE_FIELDS[number];
+
+export const RULE_OPERATORS = [
+  'equals',
+  'not_equals',
+  'contains',
+  'not_contains',
+  'exists',
+  'not_exists',
+  'greater_than',
+  'less_than',
+] as const;
+
+export type RuleOperator = typeof RULE_OPERATORS[number];
+
+export type RuleMatch = 'all' | 'any';
+
+export interface ExclusionRule {
+  field: RuleField;
+  operator: RuleOperator;
+  value: string; // Compared case-insensitively; a number for price and createdAtAge
+  metafieldKey?: string; // "namespace.key" - only used by metafield rules
+}
+
+export interface ExclusionRuleGroup {
+  match: RuleMatch;
+  rules: ExclusionRule[];
+}
+
+export interface ExclusionRuleSet {
+  match: RuleMatch;
+  groups: ExclusionRuleGroup[];
+}
+
+// The product data rules are evaluated against
+export interface RuleSubject {
+  tags: string[];
+  vendor: string;
+  productType: string;
+  createdAt: string; // ISO date
+  minPrice: number; // Lowest variant price
+  metafields: Record<string, string>; // Keyed by "namespace.key"
+}
+
+export const EMPTY_RULE_SET: ExclusionRuleSet = { match: 'any', groups: [] };
+
+// Labels used by the rule editor
+export const RULE_FIELD_LABELS: Record<RuleField, string> = {
+  tag: 'Tag',
+  vendor: 'Vendor',
+  productType: 'Product type',
+  metafield: 'Metafield',
+  price: 'Price',
+  createdAtAge: 'Days since created',
+};
+
+export const RULE_OPERATOR_LABELS: Record<RuleOperator, string> = {
+  equals: 'is',
+  not_equals: 'is not',
+  contains: 'contains',
+  not_contains: 'does not contain',
+  exists: 'is set',
+  not_exists: 'is not set',
+  greater_than: 'is greater than',
+  less_than: 'is less than',
+};
+
+// Operators that make sense for each field - the first one is the default
+export const OPERATORS_BY_FIELD: Record<RuleField, RuleOperator[]> = {
+  tag: ['equals', 'not_equals', 'contains'],
+  vendor: ['equals', 'not_equals', 'contains', 'not_contains'],
+  productType: ['equals', 'not_equals', 'contains', 'not_contains', 'exists', 'not_exists'],
+  metafield: ['equals', 'not_equals', 'contains', 'not_contains', 'exists', 'not_exists', 'greater_than', 'less_than'],
+  price: ['greater_than', 'less_than'],
+  createdAtAge: ['greater_than', 'less_than'],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A new rule for the given field with its default operator
+ */
+export function createRule(field: RuleField = 'tag'): ExclusionRule {
+  return { field, operator: OPERATORS_BY_FIELD[field][0], value: '' };
+}
+
+/**
+ * Whether a rule has everything it needs to be evaluated
+ * Incomplete rules (e.g. still being typed in the editor) are ignored
+ */
+export function isRuleComplete(rule: ExclusionRule): boolean {
+  if (!OPERATORS_BY_FIELD[rule.field]?.includes(rule.operator)) return false;
+  if (rule.field === 'metafield' && !/^[^.\s]+\.[^.\s]+$/.test(rule.metafieldKey || '')) return false;
+  if (rule.operator === 'exists' || rule.operator === 'not_exists') return true;
+  if (rule.operator === 'greater_than' || rule.operator === 'less_than') {
+    return rule.value.trim() !== '' && Number.isFinite(Number(rule.value));
+  }
+  return rule.value.trim() !== '';
+}
+
+/**
+ * Reads a rule set from stored JSON or a form post, dropping anything malformed
+ */
+export function parseRuleSet(value: unknown): ExclusionRuleSet {
+  const raw = typeof value === 'string' ? safeJsonParse(value) : value;
+  if (!isRecord(raw) || !Array.isArray(raw.groups)) return { ...EMPTY_RULE_SET };
+
+  const groups = raw.groups
+    .filter((group): group is Record<string, unknown> & { rules: unknown[] } => isRecord(group) && Array.isArray(group.rules))
+    .map(group => ({
+      match: parseMatch(group.match, 'all'),
+      rules: group.rules.flatMap(parseRule),
+    }));
+
+  return { match: parseMatch(raw.match, 'any'), groups };
+}
+
+/**
+ * Keeps only complete rules and non-empty groups - what gets saved and evaluated
+ */
+export function compactRuleSet(ruleSet: ExclusionRuleSet): ExclusionRuleSet {
+  return {
+    match: ruleSet.match,
+    groups: ruleSet.groups
+      .map(group => ({ ...group, rules: group.rules.filter(isRuleComplete) }))
+      .filter(group => group.rules.length > 0),
+  };
+}
+
+/**
+ * Number of complete rules in a rule set
+ */
+export function countRules(ruleSet: ExclusionRuleSet): number {
+  return compactRuleSet(ruleSet).groups.reduce((sum, group) => sum + group.rules.length, 0);
+}
+
+/**
+ * The "namespace.key" metafields the rule sets need fetched for each product
+ */
+export function getRuleMetafieldKeys(ruleSets: ExclusionRuleSet[]): string[] {
+  const keys = ruleSets.flatMap(ruleSet => compactRuleSet(ruleSet).groups
+    .flatMap(group => group.rules)
+    .filter(rule => rule.field === 'metafield')
+    .map(rule => rule.metafieldKey as string));
+  return Array.from(new Set(keys));
+}
+
+/**
+ * Whether a single rule matches a product
+ */
+export function evaluateRule(rule: ExclusionRule, subject: RuleSubject, now: Date = new Date()): boolean {
+  const expected = rule.value.trim().toLowerCase();
+
+  switch (rule.field) {
+    case 'tag': {
+      const tags = subject.tags.map(tag => tag.toLowerCase());
+      if (rule.operator === 'equals') return tags.includes(expected);
+      if (rule.operator === 'not_equals') return !tags.includes(expected);
+      return tags.some(tag => tag.includes(expected));
+    }
+    case 'vendor':
+      return compareText(subject.vendor, rule.operator, expected);
+    case 'productType':
+      return compareText(subject.productType, rule.operator, expected);
+    case 'metafield': {
+      const actual = subject.metafields[rule.metafieldKey || ''];
+      if (rule.operator === 'greater_than' || rule.operator === 'less_than') {
+        return actual !== undefined && compareNumber(Number(actual), rule.operator, Number(rule.value));
+      }
+      return compareText(actual, rule.operator, expected);
+    }
+    case 'price':
+      return compareNumber(subject.minPrice, rule.operator, Number(rule.value));
+    case 'createdAtAge': {
+      const ageDays = (now.getTime() - new Date(subject.createdAt).getTime()) / DAY_MS;
+      return compareNumber(ageDays, rule.operator, Number(rule.value));
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether a rule set matches a product - an empty rule set never matches
+ */
+export function evaluateRuleSet(ruleSet: ExclusionRuleSet, subject: RuleSubject, now: Date = new Date()): boolean {
+  const groups = compactRuleSet(ruleSet).groups;
+  if (groups.length === 0) return false;
+
+  const groupMatches = (group: ExclusionRuleGroup) => group.match === 'all'
+    ? group.rules.every(rule => evaluateRule(rule, subject, now))
+    : group.rules.some(rule => evaluateRule(rule, subject, now));
+
+  return ruleSet.match === 'all' ? groups.every(groupMatches) : groups.some(groupMatches);
+}
+
+/**
+ * Human-readable summary of a rule, e.g. 'Vendor is "Acme"'
+ */
+export function describeRule(rule: ExclusionRule): string {
+  const field = rule.field === 'metafield' ? `Metafield ${rule.metafieldKey}` : RULE_FIELD_LABELS[rule.field];
+  const operator = RULE_OPERATOR_LABELS[rule.operator];
+  if (rule.operator === 'exists' || rule.operator === 'not_exists') return `${field} ${operator}`;
+  if (rule.operator === 'greater_than' || rule.operator === 'less_than') return `${field} ${operator} ${rule.value}`;
+  return `${field} ${operator} "${rule.value}"`;
+}
+
+function compareText(actual: string | undefined, operator: RuleOperator, expected: string): boolean {
+  const value = (actual || '').trim().toLowerCase();
+  switch (operator) {
+    case 'equals':
+      return value === expected;
+    case 'not_equals':
+      return value !== expected;
+    case 'contains':
+      return value.includes(expected);
+    case 'not_contains':
+      return !value.includes(expected);
+    case 'exists':
+      return value !== '';
+    case 'not_exists':
+      return value === '';
+    default:
+      return false;
+  }
+}
+
+function compareNumber(actual: number, operator: RuleOperator, expected: number): boolean {
+  if (!Number.isFinite(actual)) return false;
+  if (operator === 'greater_than') return actual > expected;
+  if (operator === 'less_than') return actual < expected;
+  return false;
+}
+
+/**
+ * Reads one rule, or nothing when its field or operator is unknown
+ */
+function parseRule(value: unknown): ExclusionRule[] {
+  if (!isRecord(value) || !isRuleField(value.field) || !isRuleOperator(value.operator)) return [];
+
+  return [{
+    field: value.field,
+    operator: value.operator,
+    value: String(value.value ?? ''),
+    ...(value.field === 'metafield' ? { metafieldKey: String(value.metafieldKey ?? '').trim() } : {}),
+  }];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isRuleField(value: unknown): value is RuleField {
+  return (RULE_FIELDS as readonly unknown[]).includes(value);
+}
+
+function isRuleOperator(value: unknown): value is RuleOperator {
+  return (RULE_OPERATORS as readonly unknown[]).includes(value);
+}
+
+function parseMatch(value: unknown, fallback: RuleMatch): RuleMatch {
+  return value === 'all' || value === 'any' ? value : fallback;
+}
+
+function safeJsonParse(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
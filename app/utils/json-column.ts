@@ -0,0 +1,14 @@
+// JSON COLUMNS
+// Hands our plain data objects (rule sets, in-tier order, out-of-stock action, running sales totals...) to Prisma Json columns
+
+import type { Prisma } from '@prisma/client';
+
+/**
+ * Types a plain data object for a Prisma Json column
+ * Our config and totals types hold nothing but JSON values (strings, numbers, booleans, arrays and plain objects),
+ * but interfaces have no index signature, so TypeScript can't see that they fit Prisma.InputJsonObject -
+ * this is the one place that says so. Only pass plain data - no Dates, Maps or class instances
+ */
+export function toJsonObject<T extends object>(value: T): Prisma.InputJsonObject {
+  return value as unknown as Prisma.InputJsonObject;
+}
@@ -3,6 +3,7 @@
 
 import type { CollectionState } from './supervisor.client';
 import { createOperationTag } from './supervisor.client';
+import type { TierCounts } from './sort-tiers';
 
 export interface OperationRequest {
   collectionId: string;
@@ -11,13 +12,13 @@ export interface OperationRequest {
 }
 
 export interface OperationStatus {
-  status: 'idle' | 'processing' | 'ready' | 'error' | 'retry';
+  status: 'idle' | 'processing' | 'sorting' | 'ready' | 'error' | 'retry';
   timestamp: number;
   retryCount: number;
   lastError?: string;
+  jobId?: string; // Background sort job being followed while status is 'sorting'
   serverResponseData?: {
-    inStockCount: number;
-    outOfStockCount: number;
+    tierCounts: TierCounts;
     totalProducts: number;
   };
 }
@@ -39,6 +40,15 @@ export function createTaggedFormData(
   formData.append('enabled', targetState.enabled.toString());
   formData.append('sortType', targetState.sortType);
   formData.append('exclusionTags', JSON.stringify(targetState.exclusionTags));
+  formData.append('pushDownTags', JSON.stringify(targetState.pushDownTags));
+  formData.append('boostTags', JSON.stringify(targetState.boostTags));
+  formData.append('lowStockThreshold', targetState.lowStockThreshold.toString());
+  formData.append('lowStockBoost', targetState.lowStockBoost.toString());
+  formData.append('variantRatioThreshold', targetState.variantRatioThreshold.toString());
+  formData.append('variantRatioOption', targetState.variantRatioOption);
+  formData.append('stockLocationIds', JSON.stringify(targetState.stockLocationIds));
+  formData.append('salesContextId', targetState.salesContextId);
+  formData.append('salesWindowDays', targetState.salesWindowDays.toString());
   formData.append('operationTag', JSON.stringify(tag));
   
   return { formData, tag };
@@ -84,6 +94,52 @@ export function updateOperationStatus(
   }
 }
 
+/**
+ * Settings were saved and a background sort job was queued - follow the job
+ */
+export function markOperationSorting(
+  currentStatus: OperationStatus,
+  jobId: string
+): OperationStatus {
+  return {
+    ...currentStatus,
+    status: 'sorting',
+    timestamp: Date.now(),
+    jobId,
+    lastError: undefined
+  };
+}
+
+/**
+ * Update operation status from a polled sort job
+ * Returns the status unchanged while the job is still pending or running
+ */
+export function updateOperationFromJob(
+  currentStatus: OperationStatus,
+  job: { status: string; lastError?: string | null; result?: any }
+): OperationStatus {
+  if (job.status === 'completed') {
+    return {
+      ...currentStatus,
+      status: 'ready',
+      timestamp: Date.now(),
+      lastError: undefined,
+      serverResponseData: job.result?.stats || undefined
+    };
+  }
+
+  if (job.status === 'failed') {
+    return {
+      ...currentStatus,
+      status: 'error',
+      timestamp: Date.now(),
+      lastError: job.lastError || 'Sort job failed'
+    };
+  }
+
+  return currentStatus;
+}
+
 /**
  * Check if operation has timed out (10 seconds)
  */
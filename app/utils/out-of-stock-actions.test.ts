@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import {
+  changesCollectionProducts,
+  DEFAULT_OUT_OF_STOCK_ACTION,
+  getOutOfStockTag,
+  isOutOfStockActionActive,
+  parseOutOfStockAction,
+  type OutOfStockActionConfig,
+} from './out-of-stock-actions';
+
+const config = (overrides: Partial<OutOfStockActionConfig>): OutOfStockActionConfig => ({
+  ...DEFAULT_OUT_OF_STOCK_ACTION,
+  ...overrides,
+});
+
+describe('parseOutOfStockAction', () => {
+  it('reads an action posted as JSON', () => {
+    const posted = JSON.stringify({ days: 30, action: 'move', tag: '', targetCollectionId: 'gid://shopify/Collection/1' });
+
+    expect(parseOutOfStockAction(posted)).toEqual({
+      days: 30,
+      action: 'move',
+      tag: '',
+      targetCollectionId: 'gid://shopify/Collection/1',
+    });
+  });
+
+  it('falls back to the defaults for malformed input', () => {
+    expect(parseOutOfStockAction('{not json')).toEqual(DEFAULT_OUT_OF_STOCK_ACTION);
+    expect(parseOutOfStockAction(null)).toEqual(DEFAULT_OUT_OF_STOCK_ACTION);
+    expect(parseOutOfStockAction(42)).toEqual(DEFAULT_OUT_OF_STOCK_ACTION);
+  });
+
+  it('returns a copy of the defaults rather than the shared object', () => {
+    expect(parseOutOfStockAction(null)).not.toBe(DEFAULT_OUT_OF_STOCK_ACTION);
+  });
+
+  it('rounds days down and clamps them at zero', () => {
+    expect(parseOutOfStockAction({ days: '14.7' }).days).toBe(14);
+    expect(parseOutOfStockAction({ days: -5 }).days).toBe(0);
+    expect(parseOutOfStockAction({ days: 'soon' }).days).toBe(0);
+  });
+
+  it('defaults an unknown action to tagging', () => {
+    expect(parseOutOfStockAction({ days: 30, action: 'delete' }).action).toBe('tag');
+  });
+
+  it('trims the tag and drops a non-string or empty target collection', () => {
+    expect(parseOutOfStockAction({ tag: '  sold-out ', targetCollectionId: '' })).toMatchObject({ tag: 'sold-out', targetCollectionId: null });
+    expect(parseOutOfStockAction({ tag: 7, targetCollectionId: 7 })).toMatchObject({ tag: '', targetCollectionId: null });
+  });
+});
+
+describe('getOutOfStockTag', () => {
+  it('uses the configured tag', () => {
+    expect(getOutOfStockTag(config({ days: 30, tag: ' sold-out ' }))).toBe('sold-out');
+  });
+
+  it('names the tag after the days when none is configured', () => {
+    expect(getOutOfStockTag(config({ days: 30 }))).toBe('oos-30d');
+  });
+});
+
+describe('isOutOfStockActionActive', () => {
+  it('is off at zero days', () => {
+    expect(isOutOfStockActionActive(config({ days: 0 }))).toBe(false);
+  });
+
+  it('needs a target collection to move products', () => {
+    expect(isOutOfStockActionActive(config({ days: 30, action: 'move' }))).toBe(false);
+    expect(isOutOfStockActionActive(config({ days: 30, action: 'move', targetCollectionId: 'gid://shopify/Collection/1' }))).toBe(true);
+  });
+
+  it('needs nothing else to tag or remove products', () => {
+    expect(isOutOfStockActionActive(config({ days: 30, action: 'tag' }))).toBe(true);
+    expect(isOutOfStockActionActive(config({ days: 30, action: 'remove' }))).toBe(true);
+  });
+});
+
+describe('changesCollectionProducts', () => {
+  it('is true only for the actions that take products out of the collection', () => {
+    expect(changesCollectionProducts('tag')).toBe(false);
+    expect(changesCollectionProducts('remove')).toBe(true);
+    expect(changesCollectionProducts('move')).toBe(true);
+  });
+});
@@ -0,0 +1,82 @@
+// OUT-OF-STOCK ACTIONS
+// What happens to products that stay out of stock too long, shared by the rules page and the re-sort job
+// Push down only moves them to the bottom - these follow-up actions tag them or take them out of the collection
+
+export const OUT_OF_STOCK_ACTIONS = ['tag', 'remove', 'move'] as const;
+
+export type OutOfStockActionKind = typeof OUT_OF_STOCK_ACTIONS[number];
+
+export interface OutOfStockActionConfig {
+  days: number; // Out of stock for at least this many days (0 = off)
+  action: OutOfStockActionKind;
+  tag: string; // Tag to add - empty means "oos-<days>d"
+  targetCollectionId: string | null; // "Sold Out" collection - move action only
+}
+
+export const DEFAULT_OUT_OF_STOCK_ACTION: OutOfStockActionConfig = {
+  days: 0,
+  action: 'tag',
+  tag: '',
+  targetCollectionId: null,
+};
+
+// Labels used by the rules page
+export const OUT_OF_STOCK_ACTION_LABELS: Record<OutOfStockActionKind, string> = {
+  tag: 'Add a tag',
+  remove: 'Remove from this collection',
+  move: 'Move to another collection',
+};
+
+/**
+ * The tag the tag action adds, e.g. "oos-30d"
+ */
+export function getOutOfStockTag(config: OutOfStockActionConfig): string {
+  return config.tag.trim() || `oos-${config.days}d`;
+}
+
+/**
+ * Whether the action adds or takes products out of collections - Shopify only allows that for custom collections,
+ * smart collections pick their products from their conditions
+ */
+export function changesCollectionProducts(action: OutOfStockActionKind): boolean {
+  return action === 'remove' || action === 'move';
+}
+
+/**
+ * Whether the action is switched on and has everything it needs
+ */
+export function isOutOfStockActionActive(config: OutOfStockActionConfig): boolean {
+  if (config.days <= 0) return false;
+  return config.action !== 'move' || Boolean(config.targetCollectionId);
+}
+
+/**
+ * Reads an out-of-stock action from stored JSON or a form post, falling back to the defaults
+ */
+export function parseOutOfStockAction(value: unknown): OutOfStockActionConfig {
+  const raw = typeof value === 'string' ? safeJsonParse(value) : value;
+  if (!isRecord(raw)) return { ...DEFAULT_OUT_OF_STOCK_ACTION };
+
+  return {
+    days: Math.max(0, Math.floor(Number(raw.days)) || 0),
+    action: isOutOfStockActionKind(raw.action) ? raw.action : DEFAULT_OUT_OF_STOCK_ACTION.action,
+    tag: typeof raw.tag === 'string' ? raw.tag.trim() : '',
+    targetCollectionId: typeof raw.targetCollectionId === 'string' && raw.targetCollectionId ? raw.targetCollectionId : null,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isOutOfStockActionKind(value: unknown): value is OutOfStockActionKind {
+  return (OUT_OF_STOCK_ACTIONS as readonly unknown[]).includes(value);
+}
+
+function safeJsonParse(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,9 @@
+// PRISMA ERRORS
+// Recognises the Prisma errors we recover from instead of failing the request or job
+
+/**
+ * Whether Prisma rejected a write for breaking a unique constraint
+ */
+export function isUniqueConstraintError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: unknown }).code === 'P2002';
+}
@@ -0,0 +1,38 @@
+// SALES VELOCITY
+// Sort types and windows for ordering products by recent sales, shared by the collections page and the sorting service
+// Unlike Shopify's BEST_SELLING key, these use units sold and revenue we add up from the shop's orders
+
+// read_orders only returns the last 60 days of orders - longer windows need Shopify's protected read_all_orders scope
+export const SALES_VELOCITY_WINDOWS = [7, 30, 60] as const;
+
+export const DEFAULT_SALES_WINDOW_DAYS = 30;
+
+export type SalesMetric = 'units' | 'revenue';
+
+// Collection sort types that order by our own sales data, and the figure each one ranks by
+export const SALES_SORT_TYPES: Record<string, SalesMetric> = {
+  'units_sold desc': 'units',
+  'revenue desc': 'revenue',
+};
+
+/**
+ * The figure a sort type ranks by, or null when the sort type isn't sales based
+ */
+export function getSalesSortMetric(sortType: string): SalesMetric | null {
+  return SALES_SORT_TYPES[sortType] || null;
+}
+
+/**
+ * Reads a sales window from a form post or stored value, falling back to the default
+ */
+export function parseSalesWindowDays(value: unknown): number {
+  const days = Number(value);
+  return isSalesWindowDays(days) ? days : DEFAULT_SALES_WINDOW_DAYS;
+}
+
+/**
+ * Whether a number of days is one of the supported sales windows
+ */
+export function isSalesWindowDays(days: number): days is typeof SALES_VELOCITY_WINDOWS[number] {
+  return (SALES_VELOCITY_WINDOWS as readonly number[]).includes(days);
+}
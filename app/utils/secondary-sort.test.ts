@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createSortStep,
+  getSortMetafieldKeys,
+  getSortVelocityWindows,
+  MAX_SECONDARY_SORT_STEPS,
+  parseSecondarySort,
+  type SecondarySortConfig,
+} from './secondary-sort';
+
+describe('createSortStep', () => {
+  it('starts each key with its default direction', () => {
+    expect(createSortStep('inventory')).toEqual({ key: 'inventory', direction: 'desc' });
+    expect(createSortStep('margin')).toEqual({ key: 'margin', direction: 'desc' });
+  });
+
+  it('adds the options a key needs', () => {
+    expect(createSortStep('restock_date')).toEqual({ key: 'restock_date', direction: 'asc', metafieldKey: 'custom.restock_date' });
+    expect(createSortStep('metafield')).toEqual({ key: 'metafield', direction: 'asc', metafieldKey: '' });
+    expect(createSortStep('sales_velocity')).toEqual({ key: 'sales_velocity', direction: 'desc', days: 30 });
+  });
+});
+
+describe('parseSecondarySort', () => {
+  it('reads a config posted as JSON', () => {
+    const posted = JSON.stringify({
+      inStock: [{ key: 'inventory', direction: 'asc' }],
+      outOfStock: [{ key: 'restock_date', direction: 'asc', metafieldKey: 'custom.eta' }],
+    });
+
+    expect(parseSecondarySort(posted)).toEqual({
+      inStock: [{ key: 'inventory', direction: 'asc' }],
+      outOfStock: [{ key: 'restock_date', direction: 'asc', metafieldKey: 'custom.eta' }],
+    });
+  });
+
+  it('falls back to no steps for malformed input', () => {
+    expect(parseSecondarySort('{not json')).toEqual({ inStock: [], outOfStock: [] });
+    expect(parseSecondarySort(null)).toEqual({ inStock: [], outOfStock: [] });
+    expect(parseSecondarySort({ inStock: 'inventory' })).toEqual({ inStock: [], outOfStock: [] });
+  });
+
+  it('drops steps with an unknown key and defaults a bad direction', () => {
+    const parsed = parseSecondarySort({ inStock: [{ key: 'colour' }, null, { key: 'margin', direction: 'sideways' }] });
+
+    expect(parsed.inStock).toEqual([{ key: 'margin', direction: 'desc' }]);
+  });
+
+  it('drops metafield steps without a valid namespace.key', () => {
+    const parsed = parseSecondarySort({
+      inStock: [
+        { key: 'metafield', metafieldKey: 'weight' },
+        { key: 'metafield', metafieldKey: ' custom.weight ' },
+        { key: 'restock_date', metafieldKey: '' },
+      ],
+    });
+
+    expect(parsed.inStock).toEqual([{ key: 'metafield', direction: 'asc', metafieldKey: 'custom.weight' }]);
+  });
+
+  it('keeps only supported sales windows', () => {
+    const parsed = parseSecondarySort({ inStock: [{ key: 'sales_velocity', days: 7 }, { key: 'sales_velocity', days: 90 }] });
+
+    expect(parsed.inStock.map(step => step.days)).toEqual([7, 30]);
+  });
+
+  it('keeps at most the maximum number of steps per tier', () => {
+    const steps = Array.from({ length: MAX_SECONDARY_SORT_STEPS + 2 }, () => ({ key: 'inventory' }));
+
+    expect(parseSecondarySort({ outOfStock: steps }).outOfStock).toHaveLength(MAX_SECONDARY_SORT_STEPS);
+  });
+});
+
+describe('getSortMetafieldKeys', () => {
+  it('lists each metafield used by either tier once', () => {
+    const config: SecondarySortConfig = {
+      inStock: [createSortStep('inventory'), { key: 'metafield', direction: 'asc', metafieldKey: 'custom.weight' }],
+      outOfStock: [createSortStep('restock_date'), { key: 'metafield', direction: 'desc', metafieldKey: 'custom.weight' }],
+    };
+
+    expect(getSortMetafieldKeys(config)).toEqual(['custom.weight', 'custom.restock_date']);
+  });
+});
+
+describe('getSortVelocityWindows', () => {
+  it('lists each sales window once, defaulting steps without one', () => {
+    const config: SecondarySortConfig = {
+      inStock: [{ key: 'sales_velocity', direction: 'desc', days: 7 }, { key: 'sales_velocity', direction: 'desc' }],
+      outOfStock: [createSortStep('sales_velocity'), createSortStep('margin')],
+    };
+
+    expect(getSortVelocityWindows(config)).toEqual([7, 30]);
+  });
+});
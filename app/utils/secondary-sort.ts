@@ -0,0 +1,131 @@
+// SECONDARY SORT
+// How products are ordered inside each stock tier, shared by the sorting service and the rules page
+// Each tier gets a pipeline of steps - later steps only break ties left by earlier ones,
+// and products that tie on every step keep the collection's original order
+
+import { DEFAULT_SALES_WINDOW_DAYS, isSalesWindowDays } from './sales-velocity';
+
+export const SECONDARY_SORT_KEYS = ['inventory', 'restock_date', 'margin', 'sales_velocity', 'metafield'] as const;
+
+export type SecondarySortKey = typeof SECONDARY_SORT_KEYS[number];
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SecondarySortStep {
+  key: SecondarySortKey;
+  direction: SortDirection;
+  metafieldKey?: string; // "namespace.key" - metafield and restock_date steps
+  days?: number; // Sales window - sales_velocity steps
+}
+
+export interface SecondarySortConfig {
+  inStock: SecondarySortStep[]; // Boosted, in-stock and low-stock tiers
+  outOfStock: SecondarySortStep[];
+}
+
+export const EMPTY_SECONDARY_SORT: SecondarySortConfig = { inStock: [], outOfStock: [] };
+
+// Steps per tier - more than this rarely changes anything
+export const MAX_SECONDARY_SORT_STEPS = 3;
+
+// Expected restock dates are read from this product metafield unless the step names another
+export const DEFAULT_RESTOCK_DATE_METAFIELD = 'custom.restock_date';
+
+// Labels used by the rules page
+export const SECONDARY_SORT_LABELS: Record<SecondarySortKey, string> = {
+  inventory: 'Inventory quantity',
+  restock_date: 'Expected restock date',
+  margin: 'Margin',
+  sales_velocity: 'Units sold',
+  metafield: 'Metafield value',
+};
+
+// The direction a new step starts with - e.g. most stock first, soonest restock first
+export const DEFAULT_SORT_DIRECTIONS: Record<SecondarySortKey, SortDirection> = {
+  inventory: 'desc',
+  restock_date: 'asc',
+  margin: 'desc',
+  sales_velocity: 'desc',
+  metafield: 'asc',
+};
+
+/**
+ * A new step for the given key with its default direction and options
+ */
+export function createSortStep(key: SecondarySortKey = 'inventory'): SecondarySortStep {
+  return {
+    key,
+    direction: DEFAULT_SORT_DIRECTIONS[key],
+    ...(key === 'restock_date' ? { metafieldKey: DEFAULT_RESTOCK_DATE_METAFIELD } : {}),
+    ...(key === 'metafield' ? { metafieldKey: '' } : {}),
+    ...(key === 'sales_velocity' ? { days: DEFAULT_SALES_WINDOW_DAYS } : {}),
+  };
+}
+
+/**
+ * Reads a secondary sort config from stored JSON or a form post, dropping malformed steps
+ * Metafield steps without a valid "namespace.key" are dropped too
+ */
+export function parseSecondarySort(value: unknown): SecondarySortConfig {
+  const raw: any = typeof value === 'string' ? safeJsonParse(value) : value;
+  if (!raw || typeof raw !== 'object') return { inStock: [], outOfStock: [] };
+
+  return {
+    inStock: parseSteps(raw.inStock),
+    outOfStock: parseSteps(raw.outOfStock),
+  };
+}
+
+/**
+ * The "namespace.key" metafields a secondary sort config needs fetched
+ */
+export function getSortMetafieldKeys(config: SecondarySortConfig): string[] {
+  const keys = [...config.inStock, ...config.outOfStock]
+    .filter(step => step.metafieldKey)
+    .map(step => step.metafieldKey as string);
+  return Array.from(new Set(keys));
+}
+
+/**
+ * The sales windows (in days) a secondary sort config needs order data for
+ */
+export function getSortVelocityWindows(config: SecondarySortConfig): number[] {
+  const days = [...config.inStock, ...config.outOfStock]
+    .filter(step => step.key === 'sales_velocity')
+    .map(step => step.days || DEFAULT_SALES_WINDOW_DAYS);
+  return Array.from(new Set(days));
+}
+
+function parseSteps(value: unknown): SecondarySortStep[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter(step => step && SECONDARY_SORT_KEYS.includes(step.key))
+    .map(step => {
+      const key = step.key as SecondarySortKey;
+      return {
+        ...createSortStep(key),
+        direction: step.direction === 'asc' || step.direction === 'desc' ? step.direction : DEFAULT_SORT_DIRECTIONS[key],
+        ...(step.metafieldKey !== undefined && (key === 'metafield' || key === 'restock_date')
+          ? { metafieldKey: String(step.metafieldKey).trim() }
+          : {}),
+        ...(key === 'sales_velocity' && isSalesWindowDays(Number(step.days))
+          ? { days: Number(step.days) }
+          : {}),
+      };
+    })
+    .filter(step => (step.key !== 'metafield' && step.key !== 'restock_date') || isMetafieldKey(step.metafieldKey))
+    .slice(0, MAX_SECONDARY_SORT_STEPS);
+}
+
+function isMetafieldKey(value: string | undefined): boolean {
+  return /^[^.\s]+\.[^.\s]+$/.test(value || '');
+}
+
+function safeJsonParse(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,112 @@
+// SORT TIERS
+// Named buckets a collection is sorted into, shared by the sorting service and the UI
+
+// All tiers in their default order (top of the collection first)
+// Pinned products aren't a block at the top - each one is placed at its own slot
+export const TIER_NAMES = ['pinned', 'boosted', 'in_stock', 'low_stock', 'out_of_stock', 'bottom'] as const;
+
+export type TierName = typeof TIER_NAMES[number];
+
+export type TierCounts = Record<TierName, number>;
+
+// Labels used in stats and toasts
+export const TIER_LABELS: Record<TierName, string> = {
+  pinned: 'pinned',
+  boosted: 'boosted',
+  in_stock: 'in stock',
+  low_stock: 'low stock',
+  out_of_stock: 'out of stock',
+  bottom: 'pushed to bottom',
+};
+
+/**
+ * Formats tier counts for a toast, skipping empty tiers
+ * e.g. "12 in stock, 3 low stock, 5 out of stock"
+ */
+export function formatTierCounts(counts: Partial<TierCounts>): string {
+  return TIER_NAMES
+    .filter(name => (counts[name] || 0) > 0)
+    .map(name => `${counts[name]} ${TIER_LABELS[name]}`)
+    .join(', ');
+}
+
+/**
+ * Reads tier counts stored with an order version, keeping only known tiers with a number
+ */
+export function parseTierCounts(value: unknown): Partial<TierCounts> | null {
+  if (typeof value !== 'object' || value === null) return null;
+
+  const counts: Partial<TierCounts> = {};
+  for (const name of TIER_NAMES) {
+    const count = (value as Record<string, unknown>)[name];
+    if (typeof count === 'number') counts[name] = count;
+  }
+  return counts;
+}
+
+// Why a product landed in its tier - shown in the sort preview
+export type PlacementReason =
+  | 'pinned'
+  | 'in_stock'
+  | 'low_stock'
+  | 'out_of_stock'
+  | 'not_available' // Not published to the collection's market/channel
+  | 'excluded_by_tag'
+  | 'excluded_by_rule' // Matched the collection's or the shop's exclusion rules
+  | 'pushed_down_by_tag' // Has an "always push down" tag, e.g. discontinued
+  | 'pushed_down_by_rule'
+  | 'boosted_by_tag' // In stock with a boost tag - pulled to the top
+  | 'boosted_by_rule'
+  | 'recently_restocked' // Back in stock within the collection's restock boost window
+  | 'new_arrival' // Out of stock but created within the collection's grace period
+  | 'status_kept' // Draft/archived/unpublished product kept in place by the shop's status policy
+  | 'status_bottom'; // Draft/archived/unpublished product pushed below everything
+
+export interface Placement {
+  reason: PlacementReason;
+  detail?: string; // The pinned slot, the matching tag, collection/global rules, or draft/archived/unpublished
+}
+
+/**
+ * Human-readable explanation of a placement, e.g. "Excluded by tag: preorder"
+ */
+export function describePlacement(placement: Placement): string {
+  switch (placement.reason) {
+    case 'pinned':
+      return `Pinned to slot ${placement.detail}`;
+    case 'in_stock':
+      return 'In stock';
+    case 'low_stock':
+      return 'Low stock';
+    case 'out_of_stock':
+      return 'Out of stock';
+    case 'not_available':
+      return 'Not available in the selected market or channel';
+    case 'excluded_by_tag':
+      return `Excluded by tag: ${placement.detail}`;
+    case 'excluded_by_rule':
+      return `Excluded by ${placement.detail || 'collection'} rule`;
+    case 'pushed_down_by_tag':
+      return `Pushed down by tag: ${placement.detail}`;
+    case 'pushed_down_by_rule':
+      return 'Pushed down by rule';
+    case 'boosted_by_tag':
+      return `Boosted by tag: ${placement.detail}`;
+    case 'boosted_by_rule':
+      return 'Boosted by rule';
+    case 'recently_restocked':
+      return 'Back in stock recently - boosted';
+    case 'new_arrival':
+      return 'New arrival - not pushed down';
+    case 'status_kept':
+      return `${capitalize(placement.detail || 'status')} - kept in place`;
+    case 'status_bottom':
+      return `${capitalize(placement.detail || 'status')} - pushed to bottom`;
+    default:
+      return placement.reason;
+  }
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
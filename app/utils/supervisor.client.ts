@@ -5,6 +5,15 @@ export interface CollectionState {
   enabled: boolean;
   sortType: string;
   exclusionTags: string[];
+  pushDownTags: string[]; // Always sent to the bottom tier
+  boostTags: string[]; // Pulled to the top while in stock
+  lowStockThreshold: number; // 0 = no low-stock tier
+  lowStockBoost: boolean;
+  variantRatioThreshold: number; // 0 = any variant in stock counts
+  variantRatioOption: string; // '' = count every variant
+  stockLocationIds: string[]; // [] = use the shop's locations
+  salesContextId: string; // '' = all channels
+  salesWindowDays: number; // Window of the units sold / revenue sort types
 }
 
 export interface UIState {
@@ -40,7 +49,7 @@ export function detectStateDifferences(
     if (!currentState) {
       differences.push({
         collectionId,
-        currentState: { enabled: false, sortType: 'bestsellers asc', exclusionTags: [] },
+        currentState: { enabled: false, sortType: 'bestsellers asc', exclusionTags: [], pushDownTags: [], boostTags: [], lowStockThreshold: 0, lowStockBoost: false, variantRatioThreshold: 0, variantRatioOption: '', stockLocationIds: [], salesContextId: '', salesWindowDays: 30 },
         targetState,
         operationType: targetState.enabled ? 'save-and-sort' : 'save'
       });
@@ -67,13 +76,30 @@ export function detectStateDifferences(
 export function areStatesEqual(state1: CollectionState, state2: CollectionState): boolean {
   if (state1.enabled !== state2.enabled) return false;
   if (state1.sortType !== state2.sortType) return false;
+  if (state1.lowStockThreshold !== state2.lowStockThreshold) return false;
+  if (state1.lowStockBoost !== state2.lowStockBoost) return false;
+  if (state1.variantRatioThreshold !== state2.variantRatioThreshold) return false;
+  if (state1.variantRatioOption !== state2.variantRatioOption) return false;
+  if (!haveSameItems(state1.stockLocationIds, state2.stockLocationIds)) return false;
+  if (state1.salesContextId !== state2.salesContextId) return false;
+  if (state1.salesWindowDays !== state2.salesWindowDays) return false;
+  
+  if (!haveSameItems(state1.pushDownTags, state2.pushDownTags)) return false;
+  if (!haveSameItems(state1.boostTags, state2.boostTags)) return false;
   
   // Compare exclusion tags (order-independent)
-  const tags1 = [...state1.exclusionTags].sort();
-  const tags2 = [...state2.exclusionTags].sort();
+  return haveSameItems(state1.exclusionTags, state2.exclusionTags);
+}
+
+/**
+ * Order-independent comparison of two string lists
+ */
+function haveSameItems(list1: string[], list2: string[]): boolean {
+  const sorted1 = [...list1].sort();
+  const sorted2 = [...list2].sort();
   
-  if (tags1.length !== tags2.length) return false;
-  return tags1.every((tag, index) => tag === tags2[index]);
+  if (sorted1.length !== sorted2.length) return false;
+  return sorted1.every((item, index) => item === sorted2[index]);
 }
 
 /**
@@ -113,6 +139,15 @@ export function normalizeCollectionState(settings: any): CollectionState {
   return {
     enabled: Boolean(settings?.enabled),
     sortType: settings?.sortType || 'bestsellers asc',
-    exclusionTags: Array.isArray(settings?.exclusionTags) ? [...settings.exclusionTags] : []
+    exclusionTags: Array.isArray(settings?.exclusionTags) ? [...settings.exclusionTags] : [],
+    pushDownTags: Array.isArray(settings?.pushDownTags) ? [...settings.pushDownTags] : [],
+    boostTags: Array.isArray(settings?.boostTags) ? [...settings.boostTags] : [],
+    lowStockThreshold: Number(settings?.lowStockThreshold) || 0,
+    lowStockBoost: Boolean(settings?.lowStockBoost),
+    variantRatioThreshold: Number(settings?.variantRatioThreshold) || 0,
+    variantRatioOption: settings?.variantRatioOption || '',
+    stockLocationIds: Array.isArray(settings?.stockLocationIds) ? [...settings.stockLocationIds] : [],
+    salesContextId: settings?.salesContextId || '',
+    salesWindowDays: Number(settings?.salesWindowDays) || 30
   };
 }
\ No newline at end of file
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "SortJob" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "collectionId" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL DEFAULT 'manual',
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+    "lastError" TEXT,
+    "result" JSONB,
+    "runAfter" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" TIMESTAMP(3),
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SortJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SortJob_status_runAfter_idx" ON "SortJob"("status", "runAfter");
+
+-- CreateIndex
+CREATE INDEX "SortJob_shop_collectionId_idx" ON "SortJob"("shop", "collectionId");
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "ScheduledResortRun" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "interval" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "jobIds" JSONB NOT NULL,
+    "collectionsQueued" INTEGER NOT NULL DEFAULT 0,
+    "collectionsResorted" INTEGER NOT NULL DEFAULT 0,
+    "collectionsUnchanged" INTEGER NOT NULL DEFAULT 0,
+    "collectionsFailed" INTEGER NOT NULL DEFAULT 0,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ScheduledResortRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ScheduledResortRun_shop_startedAt_idx" ON "ScheduledResortRun"("shop", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "ScheduledResortRun_status_idx" ON "ScheduledResortRun"("status");
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "ShopSetting" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "globalExclusionTags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "excludeContinueSelling" BOOLEAN NOT NULL DEFAULT true,
+    "excludeDraftProducts" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShopSetting_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShopSetting_shop_key" ON "ShopSetting"("shop");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "ShopSetting" ADD COLUMN     "stockStrategy" TEXT NOT NULL DEFAULT 'available_for_sale',
+ADD COLUMN     "stockThreshold" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "ShopSetting" ADD COLUMN     "draftPolicy" TEXT NOT NULL DEFAULT 'keep',
+ADD COLUMN     "archivedPolicy" TEXT NOT NULL DEFAULT 'bottom',
+ADD COLUMN     "unpublishedPolicy" TEXT NOT NULL DEFAULT 'ignore';
+
+-- Carry over the old "exclude draft products" checkbox
+UPDATE "ShopSetting" SET "draftPolicy" = 'ignore' WHERE "excludeDraftProducts" = false;
+
+-- AlterTable
+ALTER TABLE "ShopSetting" DROP COLUMN "excludeDraftProducts";
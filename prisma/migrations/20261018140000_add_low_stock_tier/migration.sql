@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "CollectionSetting" ADD COLUMN     "lowStockThreshold" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lowStockBoost" BOOLEAN NOT NULL DEFAULT false;
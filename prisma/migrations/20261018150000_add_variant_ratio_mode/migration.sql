@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "CollectionSetting" ADD COLUMN     "variantRatioThreshold" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "variantRatioOption" TEXT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "ShopSetting" ADD COLUMN     "stockLocationIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "CollectionSetting" ADD COLUMN     "stockLocationIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "OriginalCollectionOrder" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "collectionId" TEXT NOT NULL,
+    "sortOrder" TEXT NOT NULL,
+    "productIds" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OriginalCollectionOrder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OriginalCollectionOrder_shop_collectionId_key" ON "OriginalCollectionOrder"("shop", "collectionId");
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "CollectionOrderVersion" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "collectionId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "productIds" TEXT[],
+    "productCount" INTEGER NOT NULL,
+    "movesCount" INTEGER NOT NULL,
+    "settings" JSONB,
+    "tierCounts" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CollectionOrderVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CollectionOrderVersion_shop_collectionId_version_key" ON "CollectionOrderVersion"("shop", "collectionId", "version");
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "PinnedProduct" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "collectionId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PinnedProduct_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PinnedProduct_shop_collectionId_productId_key" ON "PinnedProduct"("shop", "collectionId", "productId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PinnedProduct_shop_collectionId_position_key" ON "PinnedProduct"("shop", "collectionId", "position");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "CollectionSetting" ADD COLUMN     "exclusionRules" JSONB;
+
+-- AlterTable
+ALTER TABLE "ShopSetting" ADD COLUMN     "globalExclusionRules" JSONB;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "ExclusionTag" ADD COLUMN     "kind" TEXT NOT NULL DEFAULT 'exclude';
+
+-- AlterTable
+ALTER TABLE "CollectionSetting" ADD COLUMN     "pushDownRules" JSONB,
+ADD COLUMN     "boostRules" JSONB;
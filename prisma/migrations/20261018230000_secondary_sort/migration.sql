@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "CollectionSetting" ADD COLUMN     "secondarySort" JSONB;
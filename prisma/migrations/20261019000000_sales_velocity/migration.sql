@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "CollectionSetting" ADD COLUMN     "salesWindowDays" INTEGER NOT NULL DEFAULT 30;
+
+-- CreateTable
+CREATE TABLE "ProductSalesStat" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "windowDays" INTEGER NOT NULL,
+    "units" INTEGER NOT NULL DEFAULT 0,
+    "revenue" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "computedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProductSalesStat_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SalesAggregation" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "windowDays" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "productsCounted" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "SalesAggregation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductSalesStat_shop_windowDays_productId_key" ON "ProductSalesStat"("shop", "windowDays", "productId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SalesAggregation_shop_windowDays_key" ON "SalesAggregation"("shop", "windowDays");
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "CollectionSetting" ADD COLUMN     "newArrivalGraceDays" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "restockBoostHours" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "ProductStockState" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "inStock" BOOLEAN NOT NULL,
+    "restockedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductStockState_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductStockState_shop_productId_key" ON "ProductStockState"("shop", "productId");
+
+-- CreateIndex
+CREATE INDEX "ProductStockState_shop_restockedAt_idx" ON "ProductStockState"("shop", "restockedAt");
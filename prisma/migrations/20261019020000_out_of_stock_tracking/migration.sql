@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "CollectionSetting" ADD COLUMN     "outOfStockAction" JSONB;
+
+-- AlterTable
+ALTER TABLE "ProductStockState" ADD COLUMN     "outOfStockSince" TIMESTAMP(3);
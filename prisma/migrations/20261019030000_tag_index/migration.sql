@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "ProductTag" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "tag" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProductTag_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TagIndex" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "tagCount" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "refreshedAt" TIMESTAMP(3),
+
+    CONSTRAINT "TagIndex_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductTag_shop_tag_key" ON "ProductTag"("shop", "tag");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TagIndex_shop_key" ON "TagIndex"("shop");
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "SalesAggregation" ADD COLUMN     "cursor" TEXT,
+ADD COLUMN     "windowStart" TIMESTAMP(3),
+ADD COLUMN     "pendingTotals" JSONB NOT NULL DEFAULT '{}';
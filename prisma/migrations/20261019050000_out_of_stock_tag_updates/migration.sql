@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ProductStockState" ADD COLUMN     "appUpdatedAt" TIMESTAMP(3);
@@ -0,0 +1,12 @@
+-- Drop duplicate pending jobs, keeping the oldest per collection
+DELETE FROM "SortJob" AS "duplicate"
+USING "SortJob" AS "kept"
+WHERE "duplicate"."status" = 'pending'
+  AND "kept"."status" = 'pending'
+  AND "duplicate"."shop" = "kept"."shop"
+  AND "duplicate"."collectionId" = "kept"."collectionId"
+  AND ("duplicate"."createdAt", "duplicate"."id") > ("kept"."createdAt", "kept"."id");
+
+-- CreateIndex
+-- Partial index - Prisma can't express it in schema.prisma, so it only lives in this migration
+CREATE UNIQUE INDEX "SortJob_shop_collectionId_pending_key" ON "SortJob"("shop", "collectionId") WHERE "status" = 'pending';
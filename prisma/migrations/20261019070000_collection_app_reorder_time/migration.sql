@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "CollectionSetting" ADD COLUMN     "appReorderedAt" TIMESTAMP(3);
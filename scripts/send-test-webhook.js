@@ -0,0 +1,72 @@
+// LOCAL WEBHOOK TESTER
+// Sends a fake webhook payload to the running app, signed with SHOPIFY_API_SECRET,
+// so the handlers can be exercised without waiting for Shopify to fire a real event.
+//
+// Usage:
+//   SHOPIFY_API_SECRET=... node scripts/send-test-webhook.js <topic> <shop> <id> [appUrl]
+//
+// Examples:
+//   node scripts/send-test-webhook.js products/update my-store.myshopify.com 8123456789
+//   node scripts/send-test-webhook.js inventory_levels/update my-store.myshopify.com 4412345678 http://localhost:3000
+//   node scripts/send-test-webhook.js collections/update my-store.myshopify.com 4412345679
+//
+// For products/update the id is a product id; for inventory_levels/update it is an inventory item id;
+// for collections/update it is a collection id.
+// The shop must have an offline session stored in the database, otherwise the handler has no admin client.
+
+import crypto from "node:crypto";
+
+const [topic, shop, id, appUrl = process.env.SHOPIFY_APP_URL || "http://localhost:3000"] =
+  process.argv.slice(2);
+const secret = process.env.SHOPIFY_API_SECRET;
+
+if (!topic || !shop || !id || !secret) {
+  console.error(
+    "Usage: SHOPIFY_API_SECRET=... node scripts/send-test-webhook.js <topic> <shop> <id> [appUrl]",
+  );
+  process.exit(1);
+}
+
+// Minimal payloads - only the fields our handlers read
+const PAYLOADS = {
+  "products/update": {
+    id: Number(id),
+    admin_graphql_api_id: `gid://shopify/Product/${id}`,
+  },
+  "inventory_levels/update": {
+    inventory_item_id: Number(id),
+    location_id: 0,
+    available: 0,
+    updated_at: new Date().toISOString(),
+  },
+  "collections/update": {
+    id: Number(id),
+    admin_graphql_api_id: `gid://shopify/Collection/${id}`,
+    updated_at: new Date().toISOString(), // After any reorder of ours, so the handler doesn't skip it
+  },
+};
+
+const payload = PAYLOADS[topic];
+if (!payload) {
+  console.error(`Unsupported topic "${topic}". Supported: ${Object.keys(PAYLOADS).join(", ")}`);
+  process.exit(1);
+}
+
+const body = JSON.stringify(payload);
+const hmac = crypto.createHmac("sha256", secret).update(body, "utf8").digest("base64");
+const url = `${appUrl.replace(/\/$/, "")}/webhooks/${topic}`;
+
+const response = await fetch(url, {
+  method: "POST",
+  headers: {
+    "Content-Type": "application/json",
+    "X-Shopify-Topic": topic,
+    "X-Shopify-Shop-Domain": shop,
+    "X-Shopify-Hmac-Sha256": hmac,
+    "X-Shopify-API-Version": "2025-07",
+    "X-Shopify-Webhook-Id": crypto.randomUUID(),
+  },
+  body,
+});
+
+console.log(`POST ${url} -> ${response.status} ${response.statusText}`);